@@ -0,0 +1,394 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { afterEach, describe, it, mock } from 'node:test';
+import { MemoryStorageBackend } from '../store/memoryStorage.js';
+import { AuthorizationServer, OAuthError, type OAuthClientRecord } from './authorizationServer.js';
+import type { IdentityProvider } from './identityProvider.js';
+import { SigningKeys } from './signingKeys.js';
+import { TokenCipher } from './tokenCipher.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REDIRECT_URI = 'http://127.0.0.1:33418/callback';
+const RESOURCE = 'http://localhost:3000/mcp';
+const CODE_VERIFIER = 'verifier-0123456789-0123456789-0123456789-0123';
+
+const provider: IdentityProvider = {
+  id: 'github',
+  displayName: 'GitHub',
+  startSignIn: async ({ state }) => ({
+    url: `https://github.example/login?state=${state}`,
+    login: { provider: 'github', redirectUri: 'http://localhost:3000/oauth/callback' },
+  }),
+  completeSignIn: () => Promise.reject(new Error('not used')),
+  refresh: () => Promise.reject(new Error('not used')),
+  revoke: async () => {},
+};
+
+function createServer(options: { maxClients?: number; redirectSchemes?: string[] } = {}) {
+  const storage = new MemoryStorageBackend();
+  const signingKeys = new SigningKeys(storage, new TokenCipher('secret'), { rotationMs: DAY_MS, retentionMs: DAY_MS });
+  return new AuthorizationServer(storage, signingKeys, {
+    issuer: 'http://localhost:3000',
+    accessTokenTtlMs: 60 * 60 * 1000,
+    refreshTokenTtlMs: 30 * DAY_MS,
+    maxClients: options.maxClients ?? 10,
+    redirectSchemes: options.redirectSchemes ?? [],
+  });
+}
+
+function challengeFor(verifier: string): string {
+  return crypto.createHash('sha256').update(verifier).digest('base64url');
+}
+
+async function authorize(server: AuthorizationServer, client: OAuthClientRecord, tokenId = 'tok_1'): Promise<string> {
+  const { url, upstreamState } = await server.beginAuthorization(
+    { clientId: client.clientId, redirectUri: REDIRECT_URI, codeChallenge: challengeFor(CODE_VERIFIER), scope: 'mcp', resource: RESOURCE },
+    provider,
+    'http://localhost:3000/oauth/callback',
+  );
+  assert.equal(new URL(url).searchParams.get('state'), upstreamState);
+  const pending = server.takePendingAuthorization(upstreamState);
+  assert.ok(pending);
+  return server.issueAuthorizationCode(pending, tokenId, 'octocat');
+}
+
+async function signIn(server: AuthorizationServer, client: OAuthClientRecord, tokenId = 'tok_1') {
+  const code = await authorize(server, client, tokenId);
+  return server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+}
+
+function assertOAuthError(fn: () => unknown, error: string): void {
+  assert.throws(fn, (thrown) => thrown instanceof OAuthError && thrown.code === error);
+}
+
+describe('AuthorizationServer', () => {
+  afterEach(() => mock.timers.reset());
+
+  describe('client registration', () => {
+    it('accepts https, loopback http and configured private-use redirect URIs', () => {
+      const server = createServer({ redirectSchemes: ['com.example.app'] });
+
+      for (const uri of [
+        'https://client.example/callback',
+        'http://localhost:8080/callback',
+        'http://127.0.0.1/callback',
+        'http://[::1]:9000/callback',
+        'com.example.app:/oauth',
+      ]) {
+        assert.doesNotThrow(() => server.registerClient({ redirectUris: [uri] }), uri);
+      }
+    });
+
+    it('rejects other redirect URIs', () => {
+      const server = createServer({ redirectSchemes: ['com.example.app'] });
+
+      for (const uri of [
+        'http://client.example/callback',
+        'javascript:alert(1)',
+        'data:text/html,hi',
+        'com.other.app:/oauth',
+        'https://client.example/callback#fragment',
+        'not a url',
+      ]) {
+        assertOAuthError(() => server.registerClient({ redirectUris: [REDIRECT_URI, uri] }), 'invalid_redirect_uri');
+      }
+    });
+
+    it('refuses registration once the client cap is reached', () => {
+      const server = createServer({ maxClients: 2 });
+      server.registerClient({ redirectUris: [REDIRECT_URI] });
+      server.registerClient({ redirectUris: [REDIRECT_URI] });
+
+      assert.throws(
+        () => server.registerClient({ redirectUris: [REDIRECT_URI] }),
+        (thrown) => thrown instanceof OAuthError && thrown.code === 'temporarily_unavailable' && thrown.statusCode === 503,
+      );
+    });
+
+    it('expires clients that never got tokens after a day, freeing their slot', () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const server = createServer({ maxClients: 1 });
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+
+      mock.timers.tick(DAY_MS);
+      assert.equal(server.getClient(client.clientId), undefined);
+      assertOAuthError(() => server.authenticateClient(client.clientId), 'invalid_client');
+      assert.doesNotThrow(() => server.registerClient({ redirectUris: [REDIRECT_URI] }));
+    });
+
+    it('keeps a client alive as long as its newest refresh token', async () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const code = await authorize(server, client);
+      server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+
+      mock.timers.tick(29 * DAY_MS);
+      server.pruneExpired();
+      assert.ok(server.getClient(client.clientId));
+
+      mock.timers.tick(DAY_MS);
+      server.pruneExpired();
+      assert.equal(server.getClient(client.clientId), undefined);
+    });
+  });
+
+  describe('consent', () => {
+    async function pendingFor(server: AuthorizationServer, client: OAuthClientRecord) {
+      const { upstreamState } = await server.beginAuthorization(
+        { clientId: client.clientId, redirectUri: REDIRECT_URI, codeChallenge: challengeFor(CODE_VERIFIER), scope: 'mcp' },
+        provider,
+        'http://localhost:3000/oauth/callback',
+      );
+      return { pending: server.takePendingAuthorization(upstreamState)!, upstreamState };
+    }
+
+    it('remembers approvals per user and client', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const { client: other } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const { pending } = await pendingFor(server, client);
+
+      assert.equal(server.hasApproval('github:1', pending), false);
+      server.recordApproval('github:1', pending);
+
+      assert.equal(server.hasApproval('github:1', pending), true);
+      assert.equal(server.hasApproval('github:2', pending), false);
+      assert.equal(server.hasApproval('github:1', { ...pending, clientId: other.clientId }), false);
+    });
+
+    it('hands out a parked consent once and only while it is fresh', async () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const { pending, upstreamState } = await pendingFor(server, client);
+
+      const consentId = server.parkConsent(pending, upstreamState, 'tok_1', 'github:1');
+      const consent = server.takePendingConsent(consentId);
+      assert.equal(consent?.clientId, client.clientId);
+      assert.equal(consent?.upstreamState, upstreamState);
+      assert.equal(consent?.tokenId, 'tok_1');
+      assert.equal(server.takePendingConsent(consentId), undefined);
+
+      const stale = server.parkConsent(pending, upstreamState, 'tok_1', 'github:1');
+      mock.timers.tick(10 * 60 * 1000);
+      assert.equal(server.takePendingConsent(stale), undefined);
+    });
+
+    it('forgets approvals once their client is gone', async () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const { pending } = await pendingFor(server, client);
+      server.recordApproval('github:1', pending);
+
+      mock.timers.tick(DAY_MS);
+      server.pruneExpired();
+
+      assert.equal(server.hasApproval('github:1', pending), false);
+    });
+  });
+
+  describe('authorization code exchange', () => {
+    it('issues tokens for the right code verifier', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const code = await authorize(server, client);
+
+      const tokens = server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+
+      assert.equal(tokens.token_type, 'Bearer');
+      assert.equal(tokens.scope, 'mcp');
+      assert.equal(server.resolveAccessToken(tokens.access_token, RESOURCE)?.subject, 'octocat');
+    });
+
+    it('rejects a wrong code verifier and burns the code', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const code = await authorize(server, client);
+
+      assertOAuthError(
+        () => server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: 'wrong-verifier' }),
+        'invalid_grant',
+      );
+      assertOAuthError(
+        () => server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER }),
+        'invalid_grant',
+      );
+    });
+
+    it('rejects a missing verifier, another redirect URI or another client', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const { client: other } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+
+      const unverified = await authorize(server, client);
+      assertOAuthError(
+        () => server.exchangeAuthorizationCode({ client, code: unverified, redirectUri: REDIRECT_URI }),
+        'invalid_grant',
+      );
+      const code = await authorize(server, client);
+      assertOAuthError(
+        () =>
+          server.exchangeAuthorizationCode({
+            client,
+            code,
+            redirectUri: 'http://127.0.0.1:1/other',
+            codeVerifier: CODE_VERIFIER,
+          }),
+        'invalid_grant',
+      );
+      const stolen = await authorize(server, client);
+      assertOAuthError(
+        () =>
+          server.exchangeAuthorizationCode({ client: other, code: stolen, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER }),
+        'invalid_grant',
+      );
+    });
+
+    it('accepts a code only once', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const code = await authorize(server, client);
+      const exchange = () =>
+        server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+
+      exchange();
+      assertOAuthError(exchange, 'invalid_grant');
+    });
+  });
+
+  describe('refresh token exchange', () => {
+    it('rotates the refresh token and rejects the replayed one', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const code = await authorize(server, client);
+      const first = server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+
+      const second = server.exchangeRefreshToken({ client, refreshToken: first.refresh_token });
+
+      assert.notEqual(second.refresh_token, first.refresh_token);
+      assertOAuthError(() => server.exchangeRefreshToken({ client, refreshToken: first.refresh_token }), 'invalid_grant');
+      assert.doesNotThrow(() => server.exchangeRefreshToken({ client, refreshToken: second.refresh_token }));
+    });
+
+    it('rejects refresh tokens of another client and wider scopes', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const { client: other } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const signIn = async () => {
+        const code = await authorize(server, client);
+        return server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+      };
+
+      const tokens = await signIn();
+      assertOAuthError(
+        () => server.exchangeRefreshToken({ client, refreshToken: tokens.refresh_token, scope: 'mcp admin' }),
+        'invalid_scope',
+      );
+      const stolen = await signIn();
+      assertOAuthError(() => server.exchangeRefreshToken({ client: other, refreshToken: stolen.refresh_token }), 'invalid_grant');
+    });
+  });
+
+  describe('access tokens', () => {
+    it('only resolve for the resource they were issued for', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const code = await authorize(server, client);
+      const tokens = server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+
+      assert.equal(server.resolveAccessToken(tokens.access_token, RESOURCE)?.tokenId, 'tok_1');
+      assert.equal(server.resolveAccessToken(tokens.access_token, 'http://localhost:3000'), undefined);
+      assert.equal(server.resolveAccessToken(tokens.access_token, 'https://other.example/mcp'), undefined);
+      assert.equal(server.findGrant(tokens.access_token)?.tokenType, 'access_token');
+    });
+
+    it('reject tampered and revoked tokens', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const code = await authorize(server, client);
+      const tokens = server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER });
+
+      const [header, payload, signature] = tokens.access_token.split('.');
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      const forged = Buffer.from(JSON.stringify({ ...claims, aud: 'https://other.example/mcp' })).toString('base64url');
+      assert.equal(server.resolveAccessToken(`${header}.${forged}.${signature}`, 'https://other.example/mcp'), undefined);
+
+      server.revokeGrant('tok_1');
+      assert.equal(server.resolveAccessToken(tokens.access_token, RESOURCE), undefined);
+    });
+  });
+
+  describe('revocation', () => {
+    it('drops every token and pending code of the sign-in, and only those', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const first = await signIn(server, client);
+      const refreshed = server.exchangeRefreshToken({ client, refreshToken: first.refresh_token });
+      const code = await authorize(server, client);
+      const other = await signIn(server, client, 'tok_2');
+
+      server.revokeGrant('tok_1');
+
+      assert.equal(server.findGrant(first.access_token), undefined);
+      assert.equal(server.findGrant(refreshed.access_token), undefined);
+      assertOAuthError(() => server.exchangeRefreshToken({ client, refreshToken: refreshed.refresh_token }), 'invalid_grant');
+      assertOAuthError(
+        () => server.exchangeAuthorizationCode({ client, code, redirectUri: REDIRECT_URI, codeVerifier: CODE_VERIFIER }),
+        'invalid_grant',
+      );
+      assert.equal(server.resolveAccessToken(other.access_token, RESOURCE)?.tokenId, 'tok_2');
+    });
+
+    it('finds the sign-in behind access and refresh tokens of the requesting client only', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const { client: other } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const tokens = await signIn(server, client);
+
+      assert.equal(server.findRevocableGrant(client, tokens.access_token), 'tok_1');
+      assert.equal(server.findRevocableGrant(client, tokens.refresh_token), 'tok_1');
+      assert.equal(server.findRevocableGrant(client, tokens.refresh_token, 'access_token'), 'tok_1');
+      assert.equal(server.findRevocableGrant(other, tokens.access_token), undefined);
+      assert.equal(server.findRevocableGrant(other, tokens.refresh_token), undefined);
+      assert.equal(server.findRevocableGrant(client, 'unknown'), undefined);
+    });
+  });
+
+  describe('introspection lookup', () => {
+    it('reports the grant and type behind access and refresh tokens, whatever the hint', async () => {
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const tokens = await signIn(server, client);
+
+      for (const hint of [undefined, 'access_token', 'refresh_token', 'unknown_hint']) {
+        const access = server.findGrant(tokens.access_token, hint);
+        assert.equal(access?.tokenType, 'access_token');
+        assert.deepEqual(
+          { subject: access.grant.subject, clientId: access.grant.clientId, scope: access.grant.scope },
+          { subject: 'octocat', clientId: client.clientId, scope: 'mcp' },
+        );
+        assert.equal(server.findGrant(tokens.refresh_token, hint)?.tokenType, 'refresh_token');
+      }
+      assert.equal(server.findGrant('unknown'), undefined);
+    });
+
+    it('reports rotated and expired tokens as inactive', async () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const server = createServer();
+      const { client } = server.registerClient({ redirectUris: [REDIRECT_URI] });
+      const first = await signIn(server, client);
+      const second = server.exchangeRefreshToken({ client, refreshToken: first.refresh_token });
+
+      assert.equal(server.findGrant(first.refresh_token), undefined);
+
+      mock.timers.tick(60 * 60 * 1000);
+      assert.equal(server.findGrant(second.access_token), undefined);
+      assert.equal(server.findGrant(second.refresh_token)?.tokenType, 'refresh_token');
+
+      mock.timers.tick(30 * DAY_MS);
+      assert.equal(server.findGrant(second.refresh_token, 'refresh_token'), undefined);
+    });
+  });
+});
@@ -0,0 +1,554 @@
+import crypto, { randomUUID } from 'node:crypto';
+import type { StorageBackend, StorageCollection } from '../store/storage.js';
+import type { IdentityProvider, UpstreamLogin } from './identityProvider.js';
+import type { SigningKeys } from './signingKeys.js';
+
+export type ClientAuthMethod = 'none' | 'client_secret_post' | 'client_secret_basic';
+
+export type OAuthClientRecord = {
+  clientId: string;
+  clientSecretHash?: string;
+  clientName?: string;
+  redirectUris: string[];
+  tokenEndpointAuthMethod: ClientAuthMethod;
+  scope: string;
+  issuedAt: number;
+  // Pushed to one refresh token lifetime ahead whenever the client gets tokens, so a
+  // client lives as long as its newest refresh token could. Clients registered before
+  // client lifetimes existed have none and never expire.
+  expiresAt?: number;
+};
+
+export type AuthorizationRequest = {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  state?: string;
+  scope: string;
+  resource?: string;
+};
+
+type PendingAuthorization = AuthorizationRequest & {
+  upstream: UpstreamLogin;
+  expiresAt: number;
+};
+
+/**
+ * An authorization whose user signed in upstream but has not yet approved the client.
+ * `upstreamState` ties it to the browser that started it.
+ */
+export type PendingConsent = AuthorizationRequest & {
+  upstreamState: string;
+  tokenId: string;
+  subject: string;
+  expiresAt: number;
+};
+
+type ClientApproval = {
+  subject: string;
+  clientId: string;
+  scope: string;
+  approvedAt: number;
+};
+
+type AuthorizationGrant = {
+  tokenId: string;
+  subject: string;
+  clientId: string;
+  scope: string;
+  resource?: string;
+  expiresAt: number;
+};
+
+type AuthorizationCodeRecord = AuthorizationGrant & {
+  redirectUri: string;
+  codeChallenge: string;
+};
+
+export type IssuedAccessToken = AuthorizationGrant;
+
+export type GrantLookup = {
+  grant: AuthorizationGrant;
+  tokenType: 'access_token' | 'refresh_token';
+};
+
+export type TokenResponse = {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+};
+
+export const SUPPORTED_SCOPES = ['mcp'];
+
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+// A registration that never gets as far as a token is dropped after a day, so anonymous
+// registrations cannot hold the client cap for long.
+const UNUSED_CLIENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * OAuth error carrying the RFC 6749 error code. Routes turn it into
+ * `{ error, error_description }` with `statusCode`.
+ */
+export class OAuthError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly statusCode = 400,
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function approvalKey(subject: string, clientId: string): string {
+  return `${clientId}:${subject}`;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function isAllowedRedirectUri(value: string, customSchemes: string[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.hash) {
+    return false;
+  }
+
+  // OAuth 2.1: https everywhere, plain http only for loopback, and only the private
+  // schemes of native apps the operator listed.
+  if (url.protocol === 'https:') {
+    return true;
+  }
+
+  if (url.protocol === 'http:') {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  }
+
+  return customSchemes.includes(url.protocol.slice(0, -1));
+}
+
+/**
+ * The sidecar's own OAuth 2.1 authorization server. GitHub only authenticates the
+ * user; clients get authorization codes and tokens issued here, bound to the
+ * stored GitHub token record, so the GitHub token never leaves the sidecar.
+ * Access tokens are signed JWTs whose `jti` must still be on record; codes and
+ * refresh tokens are opaque and stored by hash.
+ */
+export class AuthorizationServer {
+  private readonly clients: StorageCollection<OAuthClientRecord>;
+  private readonly pending: StorageCollection<PendingAuthorization>;
+  private readonly codes: StorageCollection<AuthorizationCodeRecord>;
+  private readonly accessTokens: StorageCollection<IssuedAccessToken>;
+  private readonly refreshTokens: StorageCollection<AuthorizationGrant>;
+  private readonly consents: StorageCollection<PendingConsent>;
+  private readonly approvals: StorageCollection<ClientApproval>;
+
+  constructor(
+    storage: StorageBackend,
+    private readonly signingKeys: SigningKeys,
+    private readonly options: {
+      issuer: string;
+      accessTokenTtlMs: number;
+      refreshTokenTtlMs: number;
+      maxClients: number;
+      redirectSchemes: string[];
+    },
+  ) {
+    this.clients = storage.collection<OAuthClientRecord>('oauth_clients');
+    this.pending = storage.collection<PendingAuthorization>('oauth_pending_authorizations');
+    this.codes = storage.collection<AuthorizationCodeRecord>('oauth_authorization_codes');
+    this.accessTokens = storage.collection<IssuedAccessToken>('oauth_access_tokens');
+    this.refreshTokens = storage.collection<AuthorizationGrant>('oauth_refresh_tokens');
+    this.consents = storage.collection<PendingConsent>('oauth_pending_consents');
+    this.approvals = storage.collection<ClientApproval>('oauth_approvals');
+  }
+
+  /**
+   * RFC 7591 dynamic client registration. Confidential clients get a secret that
+   * is only returned here. Registration is refused once `maxClients` live clients exist.
+   */
+  registerClient(input: {
+    redirectUris: string[];
+    clientName?: string;
+    tokenEndpointAuthMethod?: ClientAuthMethod;
+    scope?: string;
+  }): { client: OAuthClientRecord; clientSecret?: string } {
+    const invalid = input.redirectUris.find((uri) => !isAllowedRedirectUri(uri, this.options.redirectSchemes));
+    if (invalid) {
+      throw new OAuthError('invalid_redirect_uri', `Redirect URI ${invalid} is not allowed.`);
+    }
+
+    this.pruneExpired();
+    if (this.clients.count() >= this.options.maxClients) {
+      throw new OAuthError('temporarily_unavailable', 'Too many registered clients. Try again later.', 503);
+    }
+
+    const scope = this.normalizeScope(input.scope, 'invalid_client_metadata');
+    const tokenEndpointAuthMethod = input.tokenEndpointAuthMethod ?? 'none';
+    const clientSecret = tokenEndpointAuthMethod === 'none' ? undefined : randomToken();
+    const client: OAuthClientRecord = {
+      clientId: randomUUID(),
+      clientSecretHash: clientSecret ? hash(clientSecret) : undefined,
+      clientName: input.clientName,
+      redirectUris: input.redirectUris,
+      tokenEndpointAuthMethod,
+      scope,
+      issuedAt: Math.floor(Date.now() / 1000),
+      expiresAt: Date.now() + UNUSED_CLIENT_TTL_MS,
+    };
+
+    this.clients.set(client.clientId, client);
+    return { client, clientSecret };
+  }
+
+  /** The registered client, unless it expired since the last sweep. */
+  getClient(clientId: string): OAuthClientRecord | undefined {
+    const client = this.clients.get(clientId);
+    return client?.expiresAt === undefined || client.expiresAt > Date.now() ? client : undefined;
+  }
+
+  /** Checks the credentials a client presented at the token endpoint. */
+  authenticateClient(clientId: string, clientSecret?: string): OAuthClientRecord {
+    const client = this.getClient(clientId);
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client.', 401);
+    }
+
+    if (client.tokenEndpointAuthMethod !== 'none') {
+      if (!clientSecret || !client.clientSecretHash || !safeEqual(hash(clientSecret), client.clientSecretHash)) {
+        throw new OAuthError('invalid_client', 'Client authentication failed.', 401);
+      }
+    }
+
+    return client;
+  }
+
+  /**
+   * Parks a validated authorization request while the user signs in with `provider`.
+   * Returns the provider URL to send the user to and the state it carries, which the
+   * caller binds to the user's browser.
+   */
+  async beginAuthorization(
+    request: AuthorizationRequest,
+    provider: IdentityProvider,
+    upstreamRedirectUri: string,
+  ): Promise<{ url: string; upstreamState: string }> {
+    this.pruneExpired();
+
+    const scope = this.normalizeScope(request.scope, 'invalid_scope');
+    const upstreamState = randomToken();
+    const { url, login } = await provider.startSignIn({ redirectUri: upstreamRedirectUri, state: upstreamState });
+
+    this.pending.set(upstreamState, {
+      ...request,
+      scope,
+      upstream: login,
+      expiresAt: Date.now() + AUTHORIZATION_TTL_MS,
+    });
+
+    return { url, upstreamState };
+  }
+
+  /** Removes and returns the parked request for `upstreamState`, if it is still valid. */
+  takePendingAuthorization(upstreamState: string): PendingAuthorization | undefined {
+    const pending = this.pending.get(upstreamState);
+    if (!pending) {
+      return undefined;
+    }
+
+    this.pending.delete(upstreamState);
+    return pending.expiresAt > Date.now() ? pending : undefined;
+  }
+
+  /** Whether `subject` already approved `request.clientId` for at least the requested scope. */
+  hasApproval(subject: string, request: AuthorizationRequest): boolean {
+    const approval = this.approvals.get(approvalKey(subject, request.clientId));
+    const approved = approval?.scope.split(' ') ?? [];
+    return !!approval && request.scope.split(' ').every((scope) => approved.includes(scope));
+  }
+
+  /** Remembers that `subject` approved the client, so later authorizations skip the consent screen. */
+  recordApproval(subject: string, request: AuthorizationRequest): void {
+    this.approvals.set(approvalKey(subject, request.clientId), {
+      subject,
+      clientId: request.clientId,
+      scope: request.scope,
+      approvedAt: Date.now(),
+    });
+  }
+
+  /** Parks a signed-in authorization until the user answers the consent screen. Returns its id. */
+  parkConsent(pending: PendingAuthorization, upstreamState: string, tokenId: string, subject: string): string {
+    const consentId = randomToken();
+    this.consents.set(consentId, {
+      clientId: pending.clientId,
+      redirectUri: pending.redirectUri,
+      codeChallenge: pending.codeChallenge,
+      state: pending.state,
+      scope: pending.scope,
+      resource: pending.resource,
+      upstreamState,
+      tokenId,
+      subject,
+      expiresAt: Date.now() + AUTHORIZATION_TTL_MS,
+    });
+
+    return consentId;
+  }
+
+  /** Removes and returns the parked consent `consentId`, if it is still valid. */
+  takePendingConsent(consentId: string): PendingConsent | undefined {
+    const consent = this.consents.get(consentId);
+    if (!consent) {
+      return undefined;
+    }
+
+    this.consents.delete(consentId);
+    return consent.expiresAt > Date.now() ? consent : undefined;
+  }
+
+  /** Issues a single-use authorization code once the upstream sign-in produced `tokenId`. */
+  issueAuthorizationCode(pending: AuthorizationRequest, tokenId: string, subject: string): string {
+    const code = randomToken();
+    this.codes.set(hash(code), {
+      tokenId,
+      subject,
+      clientId: pending.clientId,
+      redirectUri: pending.redirectUri,
+      codeChallenge: pending.codeChallenge,
+      scope: pending.scope,
+      resource: pending.resource,
+      expiresAt: Date.now() + AUTHORIZATION_TTL_MS,
+    });
+
+    return code;
+  }
+
+  exchangeAuthorizationCode(input: {
+    client: OAuthClientRecord;
+    code: string;
+    redirectUri?: string;
+    codeVerifier?: string;
+    resource?: string;
+  }): TokenResponse {
+    const key = hash(input.code);
+    const record = this.codes.get(key);
+    // Codes are single use; a failed attempt burns the code as well.
+    this.codes.delete(key);
+
+    if (!record || record.expiresAt <= Date.now() || record.clientId !== input.client.clientId) {
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or expired.');
+    }
+
+    if (input.redirectUri !== record.redirectUri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request.');
+    }
+
+    if (!input.codeVerifier || !safeEqual(this.codeChallengeFor(input.codeVerifier), record.codeChallenge)) {
+      throw new OAuthError('invalid_grant', 'PKCE verification failed.');
+    }
+
+    if (input.resource && record.resource && input.resource !== record.resource) {
+      throw new OAuthError('invalid_target', 'resource does not match the authorization request.');
+    }
+
+    return this.issueTokens(record);
+  }
+
+  /** Rotates the refresh token: the presented one is invalidated and a new pair issued. */
+  exchangeRefreshToken(input: { client: OAuthClientRecord; refreshToken: string; scope?: string }): TokenResponse {
+    const key = hash(input.refreshToken);
+    const record = this.refreshTokens.get(key);
+    this.refreshTokens.delete(key);
+
+    if (!record || record.expiresAt <= Date.now() || record.clientId !== input.client.clientId) {
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid or expired.');
+    }
+
+    const granted = record.scope.split(' ');
+    const requested = input.scope ? input.scope.split(' ').filter(Boolean) : granted;
+    if (requested.some((scope) => !granted.includes(scope))) {
+      throw new OAuthError('invalid_scope', 'Requested scope exceeds the original grant.');
+    }
+
+    return this.issueTokens({ ...record, scope: requested.join(' ') });
+  }
+
+  /**
+   * Verifies an access token issued by this server for `audience`, the canonical URL
+   * of the resource it is presented to (RFC 8707), and returns its grant. Tokens with a
+   * bad signature, another `aud`, past `exp` or no longer on record resolve to undefined.
+   */
+  resolveAccessToken(accessToken: string, audience: string): IssuedAccessToken | undefined {
+    const claims = this.signingKeys.verify(accessToken, { issuer: this.options.issuer, audience });
+    return claims ? this.liveAccessToken(claims.jti) : undefined;
+  }
+
+  /**
+   * Finds the grant behind a live access or refresh token issued by this server.
+   * `hint` (RFC 7009/7662 `token_type_hint`) only changes the lookup order.
+   */
+  findGrant(token: string, hint?: string): GrantLookup | undefined {
+    const lookups: (() => GrantLookup | undefined)[] = [
+      () => {
+        // Introspection and revocation answer for any token issued here, whatever its audience.
+        const claims = this.signingKeys.verify(token, { issuer: this.options.issuer });
+        const grant = claims ? this.liveAccessToken(claims.jti) : undefined;
+        return grant ? { grant, tokenType: 'access_token' } : undefined;
+      },
+      () => {
+        const grant = this.refreshTokens.get(hash(token));
+        return grant && grant.expiresAt > Date.now() ? { grant, tokenType: 'refresh_token' } : undefined;
+      },
+    ];
+    if (hint === 'refresh_token') {
+      lookups.reverse();
+    }
+
+    for (const lookup of lookups) {
+      const found = lookup();
+      if (found) {
+        return found;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * RFC 7009 lookup: the sign-in (`tokenId`) behind an access or refresh token, if
+   * that token was issued to `client`. Tokens of other clients are ignored.
+   */
+  findRevocableGrant(client: OAuthClientRecord, token: string, hint?: string): string | undefined {
+    const found = this.findGrant(token, hint);
+    return found?.grant.clientId === client.clientId ? found.grant.tokenId : undefined;
+  }
+
+  /** Drops every code, access token and refresh token issued for the sign-in `tokenId`. */
+  revokeGrant(tokenId: string): void {
+    for (const collection of [this.codes, this.accessTokens, this.refreshTokens]) {
+      for (const [key, record] of collection.entries()) {
+        if (record.tokenId === tokenId) {
+          collection.delete(key);
+        }
+      }
+    }
+  }
+
+  private issueTokens(grant: Omit<AuthorizationGrant, 'expiresAt'>): TokenResponse {
+    const now = Date.now();
+    const jti = randomUUID();
+    const refreshToken = randomToken();
+    const base = {
+      tokenId: grant.tokenId,
+      subject: grant.subject,
+      clientId: grant.clientId,
+      scope: grant.scope,
+      resource: grant.resource,
+    };
+    const expiresAt = now + this.options.accessTokenTtlMs;
+
+    const accessToken = this.signingKeys.sign({
+      iss: this.options.issuer,
+      sub: grant.subject,
+      aud: grant.resource ?? `${this.options.issuer}/mcp`,
+      client_id: grant.clientId,
+      scope: grant.scope,
+      jti,
+      iat: Math.floor(now / 1000),
+      exp: Math.floor(expiresAt / 1000),
+    });
+
+    this.accessTokens.set(jti, { ...base, expiresAt });
+    this.refreshTokens.set(hash(refreshToken), { ...base, expiresAt: now + this.options.refreshTokenTtlMs });
+    this.extendClient(grant.clientId, now);
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: Math.floor(this.options.accessTokenTtlMs / 1000),
+      refresh_token: refreshToken,
+      scope: grant.scope,
+    };
+  }
+
+  private liveAccessToken(jti: string): IssuedAccessToken | undefined {
+    const record = this.accessTokens.get(jti);
+    if (record && record.expiresAt <= Date.now()) {
+      this.accessTokens.delete(jti);
+      return undefined;
+    }
+
+    return record;
+  }
+
+  private codeChallengeFor(codeVerifier: string): string {
+    return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  }
+
+  private normalizeScope(scope: string | undefined, errorCode: string): string {
+    const requested = scope ? scope.split(' ').filter(Boolean) : SUPPORTED_SCOPES;
+    const unknown = requested.find((entry) => !SUPPORTED_SCOPES.includes(entry));
+    if (unknown) {
+      throw new OAuthError(errorCode, `Unsupported scope: ${unknown}`);
+    }
+
+    return requested.join(' ');
+  }
+
+  private extendClient(clientId: string, now: number): void {
+    const client = this.clients.get(clientId);
+    if (client?.expiresAt !== undefined) {
+      this.clients.set(clientId, { ...client, expiresAt: now + this.options.refreshTokenTtlMs });
+    }
+  }
+
+  /**
+   * Drops expired pending authorizations, consents, codes, tokens and clients, and the
+   * approvals of clients that are gone. Runs on every session sweep.
+   */
+  pruneExpired(): void {
+    const now = Date.now();
+    const collections: StorageCollection<{ expiresAt?: number }>[] = [
+      this.pending,
+      this.consents,
+      this.codes,
+      this.accessTokens,
+      this.refreshTokens,
+      this.clients,
+    ];
+    for (const collection of collections) {
+      for (const [key, record] of collection.entries()) {
+        if (record.expiresAt !== undefined && record.expiresAt <= now) {
+          collection.delete(key);
+        }
+      }
+    }
+
+    // An approval is for one client; once the client is gone its id never comes back.
+    for (const [key, approval] of this.approvals.entries()) {
+      if (!this.clients.get(approval.clientId)) {
+        this.approvals.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import { createFakeGitHub } from './fakeGitHub.js';
+import {
+  exchangeGitHubCode,
+  fetchGitHubMemberships,
+  fetchGitHubUser,
+  revokeGitHubGrant,
+  type GitHubUrls,
+} from './githubOAuth.js';
+
+const credentials = { clientId: 'fake-github-client', clientSecret: 'fake-github-secret' };
+const REDIRECT_URI = 'http://127.0.0.1:3232/oauth/callback/github';
+
+describe('fake GitHub', () => {
+  let urls: GitHubUrls;
+  let close: () => void;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    app.use('/fake-github', createFakeGitHub({ ...credentials, users: ['octocat', 'hubot:acme/maintainers+globex'] }));
+
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}/fake-github`;
+    urls = { webUrl: origin, apiUrl: `${origin}/api` };
+    close = () => server.close();
+  });
+  after(() => close());
+
+  function authorizeUrl(params: Record<string, string> = {}): string {
+    return `${urls.webUrl}/login/oauth/authorize?${new URLSearchParams({
+      client_id: credentials.clientId,
+      redirect_uri: REDIRECT_URI,
+      state: 'st',
+      scope: 'read:user',
+      ...params,
+    }).toString()}`;
+  }
+
+  // Approves the sign-in as `login` through the `?login=` shortcut and returns the code.
+  async function approve(login: string): Promise<string> {
+    const response = await fetch(authorizeUrl({ login }), { redirect: 'manual' });
+    assert.equal(response.status, 302);
+    const location = new URL(response.headers.get('location')!);
+    assert.equal(location.searchParams.get('state'), 'st');
+    return location.searchParams.get('code')!;
+  }
+
+  async function signIn(login: string): Promise<string> {
+    const token = await exchangeGitHubCode({ ...credentials, code: await approve(login), redirectUri: REDIRECT_URI, urls });
+    return token.access_token;
+  }
+
+  it('shows an escaped sign-in page listing the configured users', async () => {
+    const response = await fetch(authorizeUrl({ state: '"><script>' }));
+    const html = await response.text();
+
+    assert.equal(response.status, 200);
+    assert.match(html, /Sign in as octocat/);
+    assert.match(html, /Sign in as hubot/);
+    assert.ok(!html.includes('"><script>'));
+  });
+
+  it('refuses unknown clients and redirect URIs that are not URLs', async () => {
+    assert.equal((await fetch(authorizeUrl({ client_id: 'someone-else' }))).status, 400);
+    assert.equal((await fetch(authorizeUrl({ redirect_uri: 'javascript:alert(1)' }))).status, 400);
+  });
+
+  it('signs users in through the real GitHub client code', async () => {
+    const accessToken = await signIn('octocat');
+
+    assert.match(accessToken, /^gho_fake_/);
+    assert.deepEqual(await fetchGitHubUser(accessToken, urls), { id: 1000, login: 'octocat' });
+  });
+
+  it('reports the organizations and teams listed for a user', async () => {
+    const accessToken = await signIn('hubot');
+
+    assert.deepEqual(await fetchGitHubMemberships(accessToken, urls), { orgs: ['acme', 'globex'], teams: ['acme/maintainers'] });
+    assert.deepEqual(await fetchGitHubMemberships(await signIn('octocat'), urls), { orgs: [], teams: [] });
+  });
+
+  it('redirects back with access_denied when the user cancels', async () => {
+    const response = await fetch(`${urls.webUrl}/login/oauth/authorize`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ client_id: credentials.clientId, redirect_uri: REDIRECT_URI, state: 'st', login: '' }),
+      redirect: 'manual',
+    });
+    const location = new URL(response.headers.get('location')!);
+
+    assert.equal(location.searchParams.get('error'), 'access_denied');
+    assert.equal(location.searchParams.get('state'), 'st');
+  });
+
+  it('answers token errors with HTTP 200 like github.com', async () => {
+    const code = await approve('octocat');
+
+    await assert.rejects(
+      exchangeGitHubCode({ ...credentials, clientSecret: 'wrong', code, redirectUri: REDIRECT_URI, urls }),
+      /client_id and\/or client_secret passed are incorrect/,
+    );
+    await assert.rejects(
+      exchangeGitHubCode({ ...credentials, code: await approve('octocat'), redirectUri: 'http://127.0.0.1/other', urls }),
+      /redirect_uri MUST match/,
+    );
+  });
+
+  it('accepts a code only once', async () => {
+    const code = await approve('octocat');
+    await exchangeGitHubCode({ ...credentials, code, redirectUri: REDIRECT_URI, urls });
+
+    await assert.rejects(exchangeGitHubCode({ ...credentials, code, redirectUri: REDIRECT_URI, urls }), /incorrect or expired/);
+  });
+
+  it('revokes every token of the user with the grant', async () => {
+    const first = await signIn('octocat');
+    const second = await signIn('octocat');
+    const other = await signIn('hubot');
+
+    await revokeGitHubGrant({ ...credentials, accessToken: first, urls });
+
+    await assert.rejects(fetchGitHubUser(first, urls), /HTTP 401/);
+    await assert.rejects(fetchGitHubUser(second, urls), /HTTP 401/);
+    assert.equal((await fetchGitHubUser(other, urls)).login, 'hubot');
+    // GitHub answers 404 for a grant that is already gone, which counts as revoked.
+    await revokeGitHubGrant({ ...credentials, accessToken: first, urls });
+  });
+});
@@ -0,0 +1,239 @@
+import crypto from 'node:crypto';
+import express, { type Response } from 'express';
+import { escapeHtml } from '../html.js';
+
+type FakeUser = {
+  id: number;
+  login: string;
+  orgs: string[];
+  teams: string[];
+};
+
+type FakeCode = {
+  user: FakeUser;
+  redirectUri: string;
+  scope: string;
+  expiresAt: number;
+};
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * A stand-in for the parts of GitHub the sidecar talks to: the OAuth authorize page,
+ * the token endpoint, `GET /user` and grant revocation. Mounted under `/fake-github`
+ * with the API under `/fake-github/api`, it answers like github.com does (including
+ * its HTTP 200 token errors) so the real client code runs unchanged. Codes and
+ * tokens live in memory only.
+ *
+ * Users are given as `login` or `login:org/team+org`, which makes the user a member of
+ * each listed organization and team.
+ */
+export function createFakeGitHub(options: { clientId: string; clientSecret: string; users: string[] }): express.Router {
+  const users: FakeUser[] = options.users.map((entry, index) => {
+    const [login, memberships = ''] = entry.split(':');
+    const listed = memberships.split('+').filter(Boolean);
+    return {
+      id: 1000 + index,
+      login,
+      orgs: [...new Set(listed.map((membership) => membership.split('/')[0]))],
+      teams: listed.filter((membership) => membership.includes('/')),
+    };
+  });
+  const codes = new Map<string, FakeCode>();
+  const tokens = new Map<string, FakeUser>();
+  const router = express.Router();
+
+  const findUser = (login: unknown) => users.find((user) => user.login === login);
+  const param = (source: Record<string, unknown>, name: string) =>
+    typeof source[name] === 'string' ? (source[name] as string) : '';
+
+  function redirectBack(res: Response, redirectUri: string, params: Record<string, string>): void {
+    const url = new URL(redirectUri);
+    for (const [name, value] of Object.entries(params)) {
+      if (value) {
+        url.searchParams.set(name, value);
+      }
+    }
+    res.redirect(url.toString());
+  }
+
+  function approve(res: Response, user: FakeUser, redirectUri: string, state: string, scope: string): void {
+    const code = crypto.randomBytes(10).toString('hex');
+    codes.set(code, { user, redirectUri, scope, expiresAt: Date.now() + CODE_TTL_MS });
+    redirectBack(res, redirectUri, { code, state });
+  }
+
+  function readAuthorizeRequest(res: Response, source: Record<string, unknown>) {
+    const request = {
+      clientId: param(source, 'client_id'),
+      redirectUri: param(source, 'redirect_uri'),
+      state: param(source, 'state'),
+      scope: param(source, 'scope'),
+    };
+
+    if (request.clientId !== options.clientId || !/^https?:\/\//.test(request.redirectUri)) {
+      res.status(400).type('text/html').send('<!doctype html><p>Unknown client_id or invalid redirect_uri.</p>');
+      return undefined;
+    }
+
+    return request;
+  }
+
+  // `?login=<user>` skips the page, which lets scripted tests sign in without a browser.
+  router.get('/login/oauth/authorize', (req, res) => {
+    const request = readAuthorizeRequest(res, req.query);
+    if (!request) {
+      return;
+    }
+
+    const preselected = findUser(req.query.login);
+    if (preselected) {
+      approve(res, preselected, request.redirectUri, request.state, request.scope);
+      return;
+    }
+
+    const hidden = Object.entries({
+      client_id: request.clientId,
+      redirect_uri: request.redirectUri,
+      state: request.state,
+      scope: request.scope,
+    })
+      .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}" />`)
+      .join('');
+    const buttons = users
+      .map(
+        (user) =>
+          `<button type="submit" name="login" value="${escapeHtml(user.login)}">Sign in as ${escapeHtml(user.login)}</button>`,
+      )
+      .join('');
+
+    res.type('text/html').send(`<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Fake GitHub sign-in</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 360px; margin: 64px auto; padding: 0 16px; }
+      button { display: block; width: 100%; margin: 8px 0; padding: 10px 14px; border: 1px solid #d4d4d8; border-radius: 8px; background: #fff; cursor: pointer; text-align: left; }
+      button:hover { background: #f4f4f5; }
+      p { color: #71717a; font-size: 14px; }
+    </style>
+  </head>
+  <body>
+    <h1>Fake GitHub</h1>
+    <p>Offline development sign-in. Pick a user to authorize the MCP sidecar.</p>
+    <form method="post" action="${escapeHtml(req.baseUrl)}/login/oauth/authorize">
+      ${hidden}${buttons}
+      <button type="submit" name="login" value="">Cancel</button>
+    </form>
+  </body>
+</html>`);
+  });
+
+  router.post('/login/oauth/authorize', (req, res) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const request = readAuthorizeRequest(res, body);
+    if (!request) {
+      return;
+    }
+
+    const user = findUser(body.login);
+    if (!user) {
+      redirectBack(res, request.redirectUri, {
+        error: 'access_denied',
+        error_description: 'The user has denied your application access.',
+        state: request.state,
+      });
+      return;
+    }
+
+    approve(res, user, request.redirectUri, request.state, request.scope);
+  });
+
+  router.post('/login/oauth/access_token', (req, res) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    if (param(body, 'client_id') !== options.clientId || param(body, 'client_secret') !== options.clientSecret) {
+      res.json({
+        error: 'incorrect_client_credentials',
+        error_description: 'The client_id and/or client_secret passed are incorrect.',
+      });
+      return;
+    }
+
+    const code = codes.get(param(body, 'code'));
+    codes.delete(param(body, 'code'));
+    if (!code || code.expiresAt <= Date.now()) {
+      res.json({ error: 'bad_verification_code', error_description: 'The code passed is incorrect or expired.' });
+      return;
+    }
+
+    if (param(body, 'redirect_uri') && param(body, 'redirect_uri') !== code.redirectUri) {
+      res.json({ error: 'redirect_uri_mismatch', error_description: 'The redirect_uri MUST match the registered callback URL for this application.' });
+      return;
+    }
+
+    const accessToken = `gho_fake_${crypto.randomBytes(16).toString('hex')}`;
+    tokens.set(accessToken, code.user);
+    res.json({ access_token: accessToken, token_type: 'bearer', scope: code.scope });
+  });
+
+  const authenticate = (authorization: string | undefined, res: Response) => {
+    const user = tokens.get(authorization?.replace(/^(Bearer|token)\s+/i, '') ?? '');
+    if (!user) {
+      res.status(401).json({ message: 'Bad credentials' });
+    }
+    return user;
+  };
+
+  router.get('/api/user', (req, res) => {
+    const user = authenticate(req.get('authorization'), res);
+    if (user) {
+      res.json({ id: user.id, login: user.login, name: user.login, type: 'User' });
+    }
+  });
+
+  router.get('/api/user/orgs', (req, res) => {
+    const user = authenticate(req.get('authorization'), res);
+    if (user) {
+      res.json(user.orgs.map((login) => ({ login })));
+    }
+  });
+
+  router.get('/api/user/teams', (req, res) => {
+    const user = authenticate(req.get('authorization'), res);
+    if (user) {
+      res.json(
+        user.teams.map((team) => {
+          const [org, slug] = team.split('/');
+          return { slug, name: slug, organization: { login: org } };
+        }),
+      );
+    }
+  });
+
+  router.delete('/api/applications/:clientId/grant', (req, res) => {
+    const expected = `Basic ${Buffer.from(`${options.clientId}:${options.clientSecret}`).toString('base64')}`;
+    if (req.params.clientId !== options.clientId || req.get('authorization') !== expected) {
+      res.status(401).json({ message: 'Bad credentials' });
+      return;
+    }
+
+    const user = tokens.get(param((req.body ?? {}) as Record<string, unknown>, 'access_token'));
+    if (!user) {
+      res.status(404).json({ message: 'Not Found' });
+      return;
+    }
+
+    // Revoking the grant invalidates every token the user holds for the app.
+    for (const [token, owner] of tokens) {
+      if (owner.id === user.id) {
+        tokens.delete(token);
+      }
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
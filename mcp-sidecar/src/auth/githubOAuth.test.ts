@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import { GitHubIdentityProvider, githubTokenFields, refreshGitHubToken, type GitHubUrls } from './githubOAuth.js';
+
+const credentials = { clientId: 'Iv1.client', clientSecret: 'secret' };
+
+// Answers the token endpoint like github.com, including its HTTP 200 errors, from the refresh token it is sent.
+function createGitHub(requests: Record<string, unknown>[]) {
+  const app = express();
+  app.use(express.json());
+  app.post('/login/oauth/access_token', (req, res) => {
+    const body = req.body as Record<string, unknown>;
+    requests.push(body);
+    switch (body.refresh_token) {
+      case 'ghr_rotating':
+        res.json({ access_token: 'ghu_new', expires_in: 28800, refresh_token: 'ghr_next', refresh_token_expires_in: 15897600 });
+        return;
+      case 'ghr_kept':
+        res.json({ access_token: 'ghu_new', expires_in: 28800 });
+        return;
+      case 'ghr_broken':
+        res.status(502).send('Bad Gateway');
+        return;
+      default:
+        res.json({ error: 'bad_refresh_token', error_description: 'The refresh token passed is incorrect or expired.' });
+    }
+  });
+  return app;
+}
+
+describe('githubTokenFields', () => {
+  it('turns relative lifetimes into absolute expiry times', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    assert.deepEqual(
+      githubTokenFields({ access_token: 'ghu_a', token_type: 'bearer', expires_in: 28800, refresh_token: 'ghr_a', refresh_token_expires_in: 60 }, now),
+      {
+        accessToken: 'ghu_a',
+        tokenType: 'bearer',
+        scope: undefined,
+        refreshToken: 'ghr_a',
+        expiresAt: now + 28800 * 1000,
+        refreshTokenExpiresAt: now + 60 * 1000,
+      },
+    );
+  });
+
+  it('leaves tokens from OAuth Apps, which do not expire, without an expiry', () => {
+    const fields = githubTokenFields({ access_token: 'gho_a', scope: 'read:user' });
+
+    assert.equal(fields.expiresAt, undefined);
+    assert.equal(fields.refreshToken, undefined);
+  });
+});
+
+describe('GitHub token refresh', () => {
+  const requests: Record<string, unknown>[] = [];
+  let urls: GitHubUrls;
+  let close: () => void;
+
+  before(async () => {
+    const server = createGitHub(requests).listen(0, '127.0.0.1');
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    urls = { webUrl: origin, apiUrl: `${origin}/api` };
+    close = () => server.close();
+  });
+  after(() => close());
+
+  it('sends the refresh grant and returns the rotated tokens', async () => {
+    const token = await refreshGitHubToken({ ...credentials, refreshToken: 'ghr_rotating', urls });
+
+    assert.deepEqual(requests.at(-1), {
+      client_id: 'Iv1.client',
+      client_secret: 'secret',
+      grant_type: 'refresh_token',
+      refresh_token: 'ghr_rotating',
+    });
+    assert.equal(token.access_token, 'ghu_new');
+    assert.equal(token.refresh_token, 'ghr_next');
+  });
+
+  it('reports a response without a refresh token as such', async () => {
+    const fields = await new GitHubIdentityProvider({ ...credentials, urls }).refresh('ghr_kept');
+
+    assert.equal(fields.accessToken, 'ghu_new');
+    assert.equal(fields.refreshToken, undefined);
+    assert.ok(fields.expiresAt && fields.expiresAt > Date.now());
+  });
+
+  it('throws when GitHub refuses the refresh token or fails', async () => {
+    const provider = new GitHubIdentityProvider({ ...credentials, urls });
+
+    await assert.rejects(provider.refresh('ghr_revoked'), /The refresh token passed is incorrect or expired\./);
+    await assert.rejects(provider.refresh('ghr_broken'), /GitHub token refresh failed with HTTP 502/);
+  });
+});
@@ -1,9 +1,15 @@
 import crypto from 'node:crypto';
+import type { OAuthTokenRecord } from '../store/tokenStore.js';
+import type { IdentityProvider, ProviderTokenFields, ProviderUser, UpstreamLogin } from './identityProvider.js';
 
 export type GitHubTokenResponse = {
   access_token: string;
   token_type?: string;
   scope?: string;
+  // Only present for GitHub Apps with expiring user tokens; lifetimes are in seconds.
+  expires_in?: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
 };
 
 export type GitHubUserResponse = {
@@ -11,6 +17,17 @@ export type GitHubUserResponse = {
   login: string;
 };
 
+/** Where GitHub lives; GitHub Enterprise Server and the fake provider use other hosts. */
+export type GitHubUrls = {
+  webUrl: string;
+  apiUrl: string;
+};
+
+export const GITHUB_COM_URLS: GitHubUrls = {
+  webUrl: 'https://github.com',
+  apiUrl: 'https://api.github.com',
+};
+
 export function generateOAuthState(): string {
   return crypto.randomBytes(16).toString('hex');
 }
@@ -20,6 +37,7 @@ export function buildGitHubAuthorizeUrl(options: {
   redirectUri: string;
   state: string;
   scope?: string;
+  urls?: GitHubUrls;
 }): string {
   const params = new URLSearchParams({
     client_id: options.clientId,
@@ -28,31 +46,25 @@ export function buildGitHubAuthorizeUrl(options: {
     scope: options.scope ?? 'read:user',
   });
 
-  return `https://github.com/login/oauth/authorize?${params.toString()}`;
+  return `${(options.urls ?? GITHUB_COM_URLS).webUrl}/login/oauth/authorize?${params.toString()}`;
 }
 
-export async function exchangeGitHubCode(options: {
-  clientId: string;
-  clientSecret: string;
-  code: string;
-  redirectUri: string;
-}): Promise<GitHubTokenResponse> {
-  const response = await fetch('https://github.com/login/oauth/access_token', {
+async function requestGitHubToken(
+  action: string,
+  body: Record<string, string>,
+  urls: GitHubUrls = GITHUB_COM_URLS,
+): Promise<GitHubTokenResponse> {
+  const response = await fetch(`${urls.webUrl}/login/oauth/access_token`, {
     method: 'POST',
     headers: {
       Accept: 'application/json',
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-      client_id: options.clientId,
-      client_secret: options.clientSecret,
-      code: options.code,
-      redirect_uri: options.redirectUri,
-    }),
+    body: JSON.stringify(body),
   });
 
   if (!response.ok) {
-    throw new Error(`GitHub token exchange failed with HTTP ${response.status}`);
+    throw new Error(`GitHub ${action} failed with HTTP ${response.status}`);
   }
 
   const payload = (await response.json()) as Partial<GitHubTokenResponse> & {
@@ -61,18 +73,111 @@ export async function exchangeGitHubCode(options: {
   };
 
   if (payload.error || !payload.access_token) {
-    throw new Error(payload.error_description ?? payload.error ?? 'GitHub token exchange returned no access token');
+    throw new Error(payload.error_description ?? payload.error ?? `GitHub ${action} returned no access token`);
   }
 
   return {
     access_token: payload.access_token,
     token_type: payload.token_type,
     scope: payload.scope,
+    expires_in: payload.expires_in,
+    refresh_token: payload.refresh_token,
+    refresh_token_expires_in: payload.refresh_token_expires_in,
   };
 }
 
-export async function fetchGitHubUser(accessToken: string): Promise<GitHubUserResponse> {
-  const response = await fetch('https://api.github.com/user', {
+export async function exchangeGitHubCode(options: {
+  clientId: string;
+  clientSecret: string;
+  code: string;
+  redirectUri: string;
+  urls?: GitHubUrls;
+}): Promise<GitHubTokenResponse> {
+  return requestGitHubToken(
+    'token exchange',
+    {
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      code: options.code,
+      redirect_uri: options.redirectUri,
+    },
+    options.urls,
+  );
+}
+
+/**
+ * Trades a refresh token for a new access token. GitHub rotates the refresh
+ * token on every use, so the old one must be replaced with the returned one.
+ */
+export async function refreshGitHubToken(options: {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  urls?: GitHubUrls;
+}): Promise<GitHubTokenResponse> {
+  return requestGitHubToken(
+    'token refresh',
+    {
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      grant_type: 'refresh_token',
+      refresh_token: options.refreshToken,
+    },
+    options.urls,
+  );
+}
+
+/**
+ * Maps a GitHub token response onto the token record fields, turning relative
+ * lifetimes into absolute epoch milliseconds.
+ */
+export function githubTokenFields(
+  token: GitHubTokenResponse,
+  now = Date.now(),
+): ProviderTokenFields {
+  return {
+    accessToken: token.access_token,
+    tokenType: token.token_type,
+    scope: token.scope,
+    refreshToken: token.refresh_token,
+    expiresAt: token.expires_in ? now + token.expires_in * 1000 : undefined,
+    refreshTokenExpiresAt: token.refresh_token_expires_in ? now + token.refresh_token_expires_in * 1000 : undefined,
+  };
+}
+
+/**
+ * Revokes the user's whole authorization of the GitHub app, which invalidates every
+ * token GitHub issued for it. GitHub answers 404 when the grant is already gone.
+ */
+export async function revokeGitHubGrant(options: {
+  clientId: string;
+  clientSecret: string;
+  accessToken: string;
+  urls?: GitHubUrls;
+}): Promise<void> {
+  const { apiUrl } = options.urls ?? GITHUB_COM_URLS;
+  const credentials = Buffer.from(`${options.clientId}:${options.clientSecret}`).toString('base64');
+  const response = await fetch(`${apiUrl}/applications/${encodeURIComponent(options.clientId)}/grant`, {
+    method: 'DELETE',
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Basic ${credentials}`,
+      'Content-Type': 'application/json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+    body: JSON.stringify({ access_token: options.accessToken }),
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`GitHub grant revocation failed with HTTP ${response.status}`);
+  }
+}
+
+export async function fetchGitHubUser(
+  accessToken: string,
+  urls: GitHubUrls = GITHUB_COM_URLS,
+): Promise<GitHubUserResponse> {
+  const response = await fetch(`${urls.apiUrl}/user`, {
     headers: {
       Accept: 'application/vnd.github+json',
       Authorization: `Bearer ${accessToken}`,
@@ -95,3 +200,83 @@ export async function fetchGitHubUser(accessToken: string): Promise<GitHubUserRe
     login: payload.login,
   };
 }
+
+/**
+ * Organizations and teams (`org/team-slug`) the user belongs to. Needs the `read:org`
+ * scope; only the first 100 of each are read.
+ */
+export async function fetchGitHubMemberships(
+  accessToken: string,
+  urls: GitHubUrls = GITHUB_COM_URLS,
+): Promise<{ orgs: string[]; teams: string[] }> {
+  const get = async <T>(path: string): Promise<T[]> => {
+    const response = await fetch(`${urls.apiUrl}${path}?per_page=100`, {
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${accessToken}`,
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub ${path} fetch failed with HTTP ${response.status}`);
+    }
+
+    return (await response.json()) as T[];
+  };
+
+  const [orgs, teams] = await Promise.all([
+    get<{ login: string }>('/user/orgs'),
+    get<{ slug: string; organization: { login: string } }>('/user/teams'),
+  ]);
+
+  return {
+    orgs: orgs.map((org) => org.login),
+    teams: teams.map((team) => `${team.organization.login}/${team.slug}`),
+  };
+}
+
+/** Signs users in with a GitHub OAuth App or GitHub App. */
+export class GitHubIdentityProvider implements IdentityProvider {
+  readonly id = 'github';
+  readonly displayName = 'GitHub';
+
+  constructor(
+    private readonly credentials: { clientId: string; clientSecret: string; urls: GitHubUrls },
+    private readonly scope = 'read:user user:email',
+  ) {}
+
+  async startSignIn(options: { redirectUri: string; state: string }): Promise<{ url: string; login: UpstreamLogin }> {
+    return {
+      url: buildGitHubAuthorizeUrl({
+        clientId: this.credentials.clientId,
+        redirectUri: options.redirectUri,
+        state: options.state,
+        scope: this.scope,
+        urls: this.credentials.urls,
+      }),
+      login: { provider: this.id, redirectUri: options.redirectUri },
+    };
+  }
+
+  async completeSignIn(options: { code: string; login: UpstreamLogin }): Promise<{
+    tokens: ProviderTokenFields;
+    user: ProviderUser;
+  }> {
+    const token = await exchangeGitHubCode({
+      ...this.credentials,
+      code: options.code,
+      redirectUri: options.login.redirectUri,
+    });
+
+    return { tokens: githubTokenFields(token), user: await fetchGitHubUser(token.access_token, this.credentials.urls) };
+  }
+
+  async refresh(refreshToken: string): Promise<ProviderTokenFields> {
+    return githubTokenFields(await refreshGitHubToken({ ...this.credentials, refreshToken }));
+  }
+
+  async revoke(record: OAuthTokenRecord): Promise<void> {
+    await revokeGitHubGrant({ ...this.credentials, accessToken: record.accessToken });
+  }
+}
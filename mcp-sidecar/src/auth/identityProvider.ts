@@ -0,0 +1,53 @@
+import type { OAuthTokenRecord } from '../store/tokenStore.js';
+
+export type ProviderTokenFields = Pick<
+  OAuthTokenRecord,
+  'accessToken' | 'tokenType' | 'scope' | 'refreshToken' | 'expiresAt' | 'refreshTokenExpiresAt'
+>;
+
+export type ProviderUser = {
+  id: number | string;
+  login: string;
+};
+
+/**
+ * Everything needed to finish an upstream sign-in once the provider redirects
+ * back: which provider, the callback URL it was sent to, and the OIDC nonce and
+ * PKCE verifier when the provider uses them.
+ */
+export type UpstreamLogin = {
+  provider: string;
+  redirectUri: string;
+  nonce?: string;
+  codeVerifier?: string;
+};
+
+/**
+ * An upstream identity provider. The sidecar only uses it to learn who the user
+ * is; the provider's tokens are kept server-side in the token store.
+ */
+export interface IdentityProvider {
+  readonly id: string;
+  readonly displayName: string;
+
+  /** Builds the provider's authorize URL and the login context to keep until the callback. */
+  startSignIn(options: { redirectUri: string; state: string }): Promise<{ url: string; login: UpstreamLogin }>;
+
+  completeSignIn(options: { code: string; login: UpstreamLogin }): Promise<{
+    tokens: ProviderTokenFields;
+    user: ProviderUser;
+  }>;
+
+  /** Trades a refresh token for new tokens. Throws when the provider refuses. */
+  refresh(refreshToken: string): Promise<ProviderTokenFields>;
+
+  /** Revokes the user's grant upstream where the provider supports it. */
+  revoke(record: OAuthTokenRecord): Promise<void>;
+}
+
+// Records written before providers existed all came from GitHub.
+export const LEGACY_PROVIDER_ID = 'github';
+
+export function providerIdOf(record: Pick<OAuthTokenRecord, 'provider'>): string {
+  return record.provider ?? LEGACY_PROVIDER_ID;
+}
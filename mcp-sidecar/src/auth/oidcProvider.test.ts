@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import express from 'express';
+import { OidcIdentityProvider } from './oidcProvider.js';
+
+type Signer = { alg: 'ES256' | 'RS256'; kid?: string; privateKey: crypto.KeyObject; jwk: Record<string, unknown> };
+
+function createSigner(alg: Signer['alg'], kid?: string, jwkFields: Record<string, unknown> = {}): Signer {
+  const { privateKey, publicKey } =
+    alg === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { alg, kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', ...jwkFields } };
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signIdToken(signer: Signer, claims: Record<string, unknown>): string {
+  const input = `${encode({ alg: signer.alg, kid: signer.kid, typ: 'JWT' })}.${encode(claims)}`;
+  const signature = crypto.sign(
+    'sha256',
+    Buffer.from(input),
+    signer.alg === 'ES256' ? { key: signer.privateKey, dsaEncoding: 'ieee-p1363' } : signer.privateKey,
+  );
+  return `${input}.${signature.toString('base64url')}`;
+}
+
+const signers = {
+  current: createSigner('ES256', 'key-1'),
+  other: createSigner('ES256', 'key-1'),
+  unnamed: createSigner('ES256'),
+  rsa: createSigner('RS256'),
+  encryption: createSigner('ES256', undefined, { use: 'enc' }),
+};
+
+// The identity provider's discovery document, JWKS and token endpoint; each test sets what they answer.
+const idp = {
+  issuer: '',
+  discoveryIssuer: '',
+  keys: [] as Record<string, unknown>[],
+  idToken: () => '',
+};
+
+describe('OidcIdentityProvider', () => {
+  let close: () => void;
+
+  before(async () => {
+    const app = express();
+    app.get('/.well-known/openid-configuration', (_req, res) => {
+      res.json({
+        issuer: idp.discoveryIssuer,
+        authorization_endpoint: `${idp.issuer}/authorize`,
+        token_endpoint: `${idp.issuer}/token`,
+        jwks_uri: `${idp.issuer}/jwks`,
+      });
+    });
+    app.get('/jwks', (_req, res) => {
+      res.json({ keys: idp.keys });
+    });
+    app.post('/token', (_req, res) => {
+      res.json({ access_token: 'at_1', token_type: 'Bearer', expires_in: 3600, id_token: idp.idToken() });
+    });
+
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    idp.issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    close = () => server.close();
+  });
+  after(() => close());
+
+  beforeEach(() => {
+    idp.discoveryIssuer = idp.issuer;
+    idp.keys = [signers.current.jwk];
+  });
+
+  function createProvider() {
+    return new OidcIdentityProvider({
+      id: 'acme',
+      name: 'Acme',
+      issuer: idp.issuer,
+      clientId: 'sidecar',
+      clientSecret: 'secret',
+      scope: 'openid profile',
+    });
+  }
+
+  // Runs a sign-in whose ID token carries valid claims unless `claims` overrides them.
+  async function signIn(claims: Record<string, unknown> = {}, signer = signers.current) {
+    const provider = createProvider();
+    const { login } = await provider.startSignIn({ redirectUri: 'http://127.0.0.1:3232/oauth/callback/acme', state: 'st' });
+    idp.idToken = () =>
+      signIdToken(signer, {
+        iss: idp.issuer,
+        aud: 'sidecar',
+        sub: '00u1a2b3c4',
+        exp: Math.floor(Date.now() / 1000) + 300,
+        nonce: login.nonce,
+        preferred_username: 'alice',
+        ...claims,
+      });
+    return provider.completeSignIn({ code: 'code', login });
+  }
+
+  describe('discovery', () => {
+    it('sends the user to the discovered endpoint with PKCE and a nonce', async () => {
+      const { url, login } = await createProvider().startSignIn({ redirectUri: 'http://127.0.0.1/cb', state: 'st' });
+      const authorize = new URL(url);
+
+      assert.equal(`${authorize.origin}${authorize.pathname}`, `${idp.issuer}/authorize`);
+      assert.equal(authorize.searchParams.get('nonce'), login.nonce);
+      assert.equal(authorize.searchParams.get('code_challenge_method'), 'S256');
+      assert.equal(
+        authorize.searchParams.get('code_challenge'),
+        crypto.createHash('sha256').update(login.codeVerifier!).digest('base64url'),
+      );
+    });
+
+    it('refuses a discovery document for another issuer', async () => {
+      idp.discoveryIssuer = 'https://evil.example';
+
+      await assert.rejects(createProvider().startSignIn({ redirectUri: 'http://127.0.0.1/cb', state: 'st' }), /names issuer https:\/\/evil\.example/);
+    });
+  });
+
+  describe('ID token validation', () => {
+    it('accepts a valid ID token', async () => {
+      const { tokens, user } = await signIn();
+
+      assert.equal(tokens.accessToken, 'at_1');
+      assert.deepEqual(user, { id: '00u1a2b3c4', login: 'alice' });
+    });
+
+    it('rejects a token signed by another key', async () => {
+      await assert.rejects(signIn({}, signers.other), /signature is invalid/);
+    });
+
+    it('rejects another issuer, audience, an expired token or another nonce', async () => {
+      await assert.rejects(signIn({ iss: 'https://evil.example' }), /different issuer/);
+      await assert.rejects(signIn({ aud: ['other-client'] }), /different client/);
+      await assert.rejects(signIn({ exp: Math.floor(Date.now() / 1000) - 120 }), /expired/);
+      await assert.rejects(signIn({ nonce: 'replayed' }), /nonce does not match/);
+    });
+
+    it('picks the only signing key for the algorithm when the token names none', async () => {
+      idp.keys = [signers.rsa.jwk, signers.encryption.jwk, signers.unnamed.jwk];
+
+      const { user } = await signIn({}, signers.unnamed);
+
+      assert.equal(user.id, '00u1a2b3c4');
+    });
+
+    it('refuses to guess between several keys when the token names none', async () => {
+      idp.keys = [signers.unnamed.jwk, { ...signers.current.jwk, kid: undefined }];
+
+      await assert.rejects(signIn({}, signers.unnamed), /Several Acme signing keys match/);
+    });
+  });
+
+  describe('user mapping', () => {
+    it('identifies the user by sub and only displays the preferred username', async () => {
+      const renamed = await signIn({ preferred_username: 'admin' });
+      const unnamed = await signIn({ preferred_username: undefined, email: 'alice@example.com' });
+
+      assert.deepEqual(renamed.user, { id: '00u1a2b3c4', login: 'admin' });
+      assert.deepEqual(unnamed.user, { id: '00u1a2b3c4', login: 'alice@example.com' });
+    });
+  });
+});
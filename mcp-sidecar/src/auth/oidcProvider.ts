@@ -0,0 +1,280 @@
+import crypto from 'node:crypto';
+import type { OidcProviderConfig } from '../config.js';
+import type { OAuthTokenRecord } from '../store/tokenStore.js';
+import type { IdentityProvider, ProviderTokenFields, ProviderUser, UpstreamLogin } from './identityProvider.js';
+
+type DiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  revocation_endpoint?: string;
+};
+
+type OidcTokenResponse = {
+  access_token: string;
+  token_type?: string;
+  scope?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+};
+
+type IdTokenClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nonce?: string;
+  preferred_username?: string;
+  email?: string;
+};
+
+type Jwk = crypto.webcrypto.JsonWebKey & { kid?: string; use?: string };
+
+type IdTokenAlgorithm = 'RS256' | 'ES256';
+
+// Allowed difference between our clock and the provider's when checking `exp`.
+const CLOCK_SKEW_SECONDS = 60;
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+// Whether `key` is a signing key of the type `alg` needs. Keys that leave out `use` or `alg` may be used for anything.
+function canVerify(key: Jwk, alg: IdTokenAlgorithm): boolean {
+  const type = alg === 'ES256' ? key.kty === 'EC' && key.crv === 'P-256' : key.kty === 'RSA';
+  return type && (key.use === undefined || key.use === 'sig') && (key.alg === undefined || key.alg === alg);
+}
+
+/**
+ * Generic OpenID Connect provider configured from the issuer's discovery document.
+ * Uses authorization code + PKCE, authenticates with `client_secret_post` and
+ * verifies the ID token (signature, issuer, audience, expiry, nonce).
+ */
+export class OidcIdentityProvider implements IdentityProvider {
+  readonly id: string;
+  readonly displayName: string;
+  private discovery?: Promise<DiscoveryDocument>;
+  private jwks: Jwk[] = [];
+
+  constructor(private readonly config: OidcProviderConfig) {
+    this.id = config.id;
+    this.displayName = config.name;
+  }
+
+  async startSignIn(options: { redirectUri: string; state: string }): Promise<{ url: string; login: UpstreamLogin }> {
+    const discovery = await this.discover();
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: options.redirectUri,
+      scope: this.config.scope,
+      state: options.state,
+      nonce,
+      code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { url: url.toString(), login: { provider: this.id, redirectUri: options.redirectUri, nonce, codeVerifier } };
+  }
+
+  async completeSignIn(options: { code: string; login: UpstreamLogin }): Promise<{
+    tokens: ProviderTokenFields;
+    user: ProviderUser;
+  }> {
+    const token = await this.requestToken('code exchange', {
+      grant_type: 'authorization_code',
+      code: options.code,
+      redirect_uri: options.login.redirectUri,
+      code_verifier: options.login.codeVerifier ?? '',
+    });
+
+    if (!token.id_token) {
+      throw new Error(`${this.displayName} returned no ID token`);
+    }
+
+    const claims = await this.verifyIdToken(token.id_token, options.login.nonce);
+    // The login is only shown to people: users can often pick their own preferred_username,
+    // so the tool policy matches OIDC users by `sub`.
+    return {
+      tokens: this.tokenFields(token),
+      user: { id: claims.sub, login: claims.preferred_username ?? claims.email ?? claims.sub },
+    };
+  }
+
+  async refresh(refreshToken: string): Promise<ProviderTokenFields> {
+    const token = await this.requestToken('token refresh', { grant_type: 'refresh_token', refresh_token: refreshToken });
+    // Providers that do not rotate refresh tokens omit them from the response.
+    return { ...this.tokenFields(token), refreshToken: token.refresh_token ?? refreshToken };
+  }
+
+  async revoke(record: OAuthTokenRecord): Promise<void> {
+    const discovery = await this.discover();
+    if (!discovery.revocation_endpoint) {
+      return;
+    }
+
+    const response = await fetch(discovery.revocation_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        token: record.refreshToken ?? record.accessToken,
+        token_type_hint: record.refreshToken ? 'refresh_token' : 'access_token',
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.displayName} token revocation failed with HTTP ${response.status}`);
+    }
+  }
+
+  private discover(): Promise<DiscoveryDocument> {
+    this.discovery ??= (async () => {
+      const response = await fetch(`${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+      if (!response.ok) {
+        throw new Error(`${this.displayName} discovery failed with HTTP ${response.status}`);
+      }
+
+      // OpenID Connect Discovery 1.0 §4.3: a document for another issuer must not be used.
+      const document = (await response.json()) as DiscoveryDocument;
+      if (document.issuer !== this.config.issuer) {
+        throw new Error(
+          `${this.displayName} discovery names issuer ${document.issuer}, not the configured ${this.config.issuer}`,
+        );
+      }
+
+      return document;
+    })();
+
+    // A failed discovery is retried on the next sign-in instead of being cached.
+    this.discovery.catch(() => {
+      this.discovery = undefined;
+    });
+
+    return this.discovery;
+  }
+
+  private async requestToken(action: string, params: Record<string, string>): Promise<OidcTokenResponse> {
+    const discovery = await this.discover();
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        ...params,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      }),
+    });
+
+    const payload = (await response.json().catch(() => ({}))) as Partial<OidcTokenResponse> & {
+      error?: string;
+      error_description?: string;
+    };
+
+    if (!response.ok || payload.error || !payload.access_token) {
+      throw new Error(
+        payload.error_description ?? payload.error ?? `${this.displayName} ${action} failed with HTTP ${response.status}`,
+      );
+    }
+
+    return payload as OidcTokenResponse;
+  }
+
+  private tokenFields(token: OidcTokenResponse, now = Date.now()): ProviderTokenFields {
+    return {
+      accessToken: token.access_token,
+      tokenType: token.token_type,
+      scope: token.scope,
+      refreshToken: token.refresh_token,
+      expiresAt: token.expires_in ? now + token.expires_in * 1000 : undefined,
+    };
+  }
+
+  private async verifyIdToken(idToken: string, nonce?: string): Promise<IdTokenClaims & { sub: string }> {
+    const [header, payload, signature] = idToken.split('.');
+    if (!header || !payload || !signature) {
+      throw new Error('ID token is malformed');
+    }
+
+    const { alg, kid } = decodeSegment<{ alg?: string; kid?: string }>(header);
+    if (alg !== 'RS256' && alg !== 'ES256') {
+      throw new Error(`ID token algorithm ${alg ?? 'none'} is not supported`);
+    }
+
+    const jwk = await this.signingKey(kid, alg);
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      alg === 'ES256'
+        ? { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' }
+        : crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+      Buffer.from(signature, 'base64url'),
+    );
+    if (!valid) {
+      throw new Error('ID token signature is invalid');
+    }
+
+    const claims = decodeSegment<IdTokenClaims>(payload);
+    const discovery = await this.discover();
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (claims.iss !== discovery.issuer) {
+      throw new Error('ID token was issued by a different issuer');
+    }
+    if (!audiences.includes(this.config.clientId)) {
+      throw new Error('ID token was issued for a different client');
+    }
+    if (!claims.exp || claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+      throw new Error('ID token has expired');
+    }
+    if (nonce && claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match the sign-in request');
+    }
+    if (!claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+
+    return { ...claims, sub: claims.sub };
+  }
+
+  /**
+   * The key that signed an ID token: the one named by `kid`, or without a `kid` the only
+   * signing key for `alg`. Keys are cached; finding none triggers one refetch to pick up
+   * provider key rotation.
+   */
+  private async signingKey(kid: string | undefined, alg: IdTokenAlgorithm): Promise<Jwk> {
+    const candidates = () => this.jwks.filter((key) => (kid === undefined || key.kid === kid) && canVerify(key, alg));
+
+    let matches = candidates();
+    if (matches.length === 0) {
+      const discovery = await this.discover();
+      const response = await fetch(discovery.jwks_uri);
+      if (!response.ok) {
+        throw new Error(`${this.displayName} JWKS fetch failed with HTTP ${response.status}`);
+      }
+
+      this.jwks = ((await response.json()) as { keys?: Jwk[] }).keys ?? [];
+      matches = candidates();
+    }
+
+    if (matches.length === 0) {
+      throw new Error(`No ${this.displayName} signing key matches the ID token`);
+    }
+    // Trying each key in turn would accept a signature from whichever key happens to fit.
+    if (matches.length > 1) {
+      throw new Error(`Several ${this.displayName} signing keys match the ID token, which names none`);
+    }
+
+    return matches[0];
+  }
+}
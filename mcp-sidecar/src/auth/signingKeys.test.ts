@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { afterEach, describe, it, mock } from 'node:test';
+import { MemoryStorageBackend } from '../store/memoryStorage.js';
+import { SigningKeys, type JwtClaims } from './signingKeys.js';
+import { TokenCipher } from './tokenCipher.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function claimsAt(now: number, ttlMs = HOUR_MS): JwtClaims {
+  return {
+    iss: 'http://localhost:3000',
+    sub: 'github:1',
+    aud: 'http://localhost:3000/mcp',
+    client_id: 'client',
+    scope: 'mcp',
+    jti: crypto.randomUUID(),
+    iat: Math.floor(now / 1000),
+    exp: Math.floor((now + ttlMs) / 1000),
+  };
+}
+
+const expected = { issuer: 'http://localhost:3000' };
+
+function createKeys(storage = new MemoryStorageBackend(), cipher = new TokenCipher('secret')) {
+  return new SigningKeys(storage, cipher, { rotationMs: 24 * HOUR_MS, retentionMs: 2 * HOUR_MS });
+}
+
+function segments(token: string): [string, string, string] {
+  const [header, payload, signature] = token.split('.');
+  return [header, payload, signature];
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('SigningKeys', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('verifies the tokens it signs and returns their claims', () => {
+    const keys = createKeys();
+    const claims = claimsAt(Date.now());
+
+    assert.deepEqual(keys.verify(keys.sign(claims), expected), claims);
+  });
+
+  it('rejects tokens with altered claims or signature', () => {
+    const keys = createKeys();
+    const claims = claimsAt(Date.now());
+    const [header, payload, signature] = segments(keys.sign(claims));
+    const signatureBytes = Buffer.from(signature, 'base64url');
+    signatureBytes[0] ^= 0x01;
+
+    assert.equal(keys.verify(`${header}.${encode({ ...claims, sub: 'github:2' })}.${signature}`, expected), undefined);
+    assert.equal(keys.verify(`${header}.${payload}.${signatureBytes.toString('base64url')}`, expected), undefined);
+    assert.equal(keys.verify(`${header}.${payload}`, expected), undefined);
+    assert.equal(keys.verify('garbage', expected), undefined);
+  });
+
+  it('rejects unknown key ids, other algorithms and tokens signed by another server', () => {
+    const keys = createKeys();
+    const [header, payload, signature] = segments(keys.sign(claimsAt(Date.now())));
+    const { kid } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8')) as { kid: string };
+
+    assert.equal(keys.verify(`${encode({ alg: 'ES256', kid: 'unknown' })}.${payload}.${signature}`, expected), undefined);
+    assert.equal(keys.verify(`${encode({ alg: 'none', kid })}.${payload}.`, expected), undefined);
+    assert.equal(keys.verify(`${encode({ alg: 'HS256', kid })}.${payload}.${signature}`, expected), undefined);
+    assert.equal(keys.verify(createKeys().sign(claimsAt(Date.now())), expected), undefined);
+  });
+
+  it('rejects tokens for another issuer or, when one is expected, another audience', () => {
+    const keys = createKeys();
+    const token = keys.sign(claimsAt(Date.now()));
+
+    assert.equal(keys.verify(token, { issuer: 'https://other.example' }), undefined);
+    assert.equal(keys.verify(keys.sign({ ...claimsAt(Date.now()), iss: 'https://other.example' }), expected), undefined);
+    assert.ok(keys.verify(token, { ...expected, audience: 'http://localhost:3000/mcp' }));
+    assert.equal(keys.verify(token, { ...expected, audience: 'https://other.example/mcp' }), undefined);
+  });
+
+  it('rejects expired tokens', () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+    const keys = createKeys();
+    const token = keys.sign(claimsAt(Date.now()));
+
+    mock.timers.tick(HOUR_MS);
+    assert.equal(keys.verify(token, expected), undefined);
+  });
+
+  it('rotates keys and keeps retired ones published for the retention window', () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+    const keys = createKeys();
+    const oldToken = keys.sign(claimsAt(Date.now(), 48 * HOUR_MS));
+    const [oldKid] = keys.jwks().keys.map((key) => key.kid);
+
+    mock.timers.tick(24 * HOUR_MS);
+    const newToken = keys.sign(claimsAt(Date.now()));
+    assert.deepEqual(keys.jwks().keys.map((key) => key.kid).slice(1), [oldKid]);
+    assert.ok(keys.verify(oldToken, expected));
+    assert.ok(keys.verify(newToken, expected));
+
+    mock.timers.tick(2 * HOUR_MS);
+    assert.equal(keys.verify(oldToken, expected), undefined);
+    assert.ok(!keys.jwks().keys.some((key) => key.kid === oldKid));
+  });
+
+  it('publishes only public key material', () => {
+    const { keys } = createKeys().jwks();
+
+    assert.equal(keys.length, 1);
+    assert.equal(keys[0].alg, 'ES256');
+    assert.equal(keys[0].use, 'sig');
+    assert.equal(keys[0].d, undefined);
+  });
+
+  it('stores private keys encrypted and replaces a key the cipher can no longer open', () => {
+    const storage = new MemoryStorageBackend();
+    const before = createKeys(storage, new TokenCipher('old-secret'));
+    const [oldKid] = before.jwks().keys.map((key) => key.kid);
+    assert.ok(!JSON.stringify(storage.collection('oauth_signing_keys').values()).includes('PRIVATE KEY'));
+
+    const after = createKeys(storage, new TokenCipher('new-secret'));
+    const token = after.sign(claimsAt(Date.now()));
+
+    assert.ok(after.verify(token, expected));
+    assert.notEqual(JSON.parse(Buffer.from(segments(token)[0], 'base64url').toString('utf8')).kid, oldKid);
+  });
+});
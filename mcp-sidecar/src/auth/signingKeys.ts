@@ -0,0 +1,151 @@
+import crypto from 'node:crypto';
+import type { StorageBackend, StorageCollection } from '../store/storage.js';
+import type { TokenCipher } from './tokenCipher.js';
+
+export type PublicJwk = crypto.webcrypto.JsonWebKey & { kid: string; alg: 'ES256'; use: 'sig' };
+
+type SigningKeyRecord = {
+  kid: string;
+  // PKCS#8 PEM sealed with the token cipher under `cipherKeyId`.
+  privateKey: string;
+  cipherKeyId: string;
+  publicJwk: PublicJwk;
+  createdAt: number;
+};
+
+export type JwtClaims = {
+  iss: string;
+  sub: string;
+  aud: string;
+  client_id: string;
+  scope: string;
+  jti: string;
+  iat: number;
+  exp: number;
+};
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment<T>(segment: string): T | undefined {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * ES256 keys for signing access tokens. A new key is generated once the current
+ * one is older than `rotationMs`; retired keys stay published in the JWKS for
+ * `retentionMs` so tokens they signed keep verifying until they expire.
+ */
+export class SigningKeys {
+  private readonly keys: StorageCollection<SigningKeyRecord>;
+
+  constructor(
+    storage: StorageBackend,
+    private readonly cipher: TokenCipher,
+    private readonly options: { rotationMs: number; retentionMs: number },
+  ) {
+    this.keys = storage.collection<SigningKeyRecord>('oauth_signing_keys');
+  }
+
+  sign(claims: JwtClaims): string {
+    const key = this.currentKey();
+    const signingInput = `${encodeSegment({ alg: 'ES256', typ: 'at+jwt', kid: key.kid })}.${encodeSegment(claims)}`;
+    const signature = crypto.sign('sha256', Buffer.from(signingInput), {
+      key: this.cipher.decrypt(key.privateKey, key.cipherKeyId, `${key.kid}:signing`),
+      dsaEncoding: 'ieee-p1363',
+    });
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Returns the claims of a token signed by a published key for `expected.issuer` and,
+   * when given, `expected.audience`; undefined if it is invalid, expired or meant for
+   * another issuer or audience.
+   */
+  verify(token: string, expected: { issuer: string; audience?: string }): JwtClaims | undefined {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      return undefined;
+    }
+
+    const { alg, kid } = decodeSegment<{ alg?: string; kid?: string }>(header) ?? {};
+    const key = alg === 'ES256' && kid ? this.keys.get(kid) : undefined;
+    if (!key || !this.isPublished(key, Date.now())) {
+      return undefined;
+    }
+
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      { key: crypto.createPublicKey({ key: key.publicJwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url'),
+    );
+    const claims = valid ? decodeSegment<JwtClaims>(payload) : undefined;
+
+    if (!claims || claims.exp * 1000 <= Date.now() || claims.iss !== expected.issuer) {
+      return undefined;
+    }
+
+    return expected.audience === undefined || claims.aud === expected.audience ? claims : undefined;
+  }
+
+  /** The JWKS document: the current key plus retired keys still inside their retention window. */
+  jwks(): { keys: PublicJwk[] } {
+    this.currentKey();
+
+    const now = Date.now();
+    return {
+      keys: this.keys
+        .values()
+        .filter((key) => this.isPublished(key, now))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map((key) => key.publicJwk),
+    };
+  }
+
+  private currentKey(): SigningKeyRecord {
+    const now = Date.now();
+    const newest = this.keys.values().sort((a, b) => b.createdAt - a.createdAt)[0];
+
+    // A key sealed with an encryption key that is no longer configured cannot sign, so replace it.
+    if (newest && newest.createdAt + this.options.rotationMs > now && this.cipher.canDecrypt(newest.cipherKeyId)) {
+      return newest;
+    }
+
+    this.prune(now);
+    return this.generate(now);
+  }
+
+  private generate(now: number): SigningKeyRecord {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const kid = crypto.randomBytes(8).toString('hex');
+    const record: SigningKeyRecord = {
+      kid,
+      privateKey: this.cipher.encrypt(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), `${kid}:signing`),
+      cipherKeyId: this.cipher.currentKeyId,
+      publicJwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'ES256', use: 'sig' },
+      createdAt: now,
+    };
+
+    this.keys.set(kid, record);
+    return record;
+  }
+
+  private isPublished(key: SigningKeyRecord, now: number): boolean {
+    return key.createdAt + this.options.rotationMs + this.options.retentionMs > now;
+  }
+
+  private prune(now: number): void {
+    for (const key of this.keys.values()) {
+      if (!this.isPublished(key, now)) {
+        this.keys.delete(key.kid);
+      }
+    }
+  }
+}
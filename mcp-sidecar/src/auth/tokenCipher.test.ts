@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TokenCipher } from './tokenCipher.js';
+
+function tamper(payload: string, part: number): string {
+  const parts = payload.split('.');
+  const bytes = Buffer.from(parts[part], 'base64url');
+  bytes[0] ^= 0x01;
+  parts[part] = bytes.toString('base64url');
+  return parts.join('.');
+}
+
+describe('TokenCipher', () => {
+  const cipher = new TokenCipher('current-secret');
+
+  it('round-trips a token and never stores it in the clear', () => {
+    const sealed = cipher.encrypt('gho_secret', 'tok_1:access');
+
+    assert.ok(!sealed.includes('gho_secret'));
+    assert.equal(cipher.decrypt(sealed, cipher.currentKeyId, 'tok_1:access'), 'gho_secret');
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    assert.notEqual(cipher.encrypt('gho_secret', 'tok_1:access'), cipher.encrypt('gho_secret', 'tok_1:access'));
+  });
+
+  it('rejects tampered ciphertext, IV and tag', () => {
+    const sealed = cipher.encrypt('gho_secret', 'tok_1:access');
+
+    for (const part of [1, 2, 3]) {
+      assert.throws(() => cipher.decrypt(tamper(sealed, part), cipher.currentKeyId, 'tok_1:access'));
+    }
+  });
+
+  it('rejects a payload moved to another record', () => {
+    const sealed = cipher.encrypt('gho_secret', 'tok_1:access');
+
+    assert.throws(() => cipher.decrypt(sealed, cipher.currentKeyId, 'tok_2:access'));
+    assert.throws(() => cipher.decrypt(sealed, cipher.currentKeyId, 'tok_1:refresh'));
+  });
+
+  it('rejects malformed payloads and unknown key ids', () => {
+    assert.throws(() => cipher.decrypt('v0.a.b.c', cipher.currentKeyId, 'tok_1:access'), /malformed/);
+    assert.throws(() => cipher.decrypt('gho_plain', cipher.currentKeyId, 'tok_1:access'), /malformed/);
+    assert.throws(() => cipher.decrypt(cipher.encrypt('x', 'ad'), 'unknown', 'ad'), /No encryption key/);
+  });
+
+  it('decrypts with previous keys after a rotation but only encrypts with the current one', () => {
+    const before = new TokenCipher('old-secret');
+    const sealed = before.encrypt('gho_secret', 'tok_1:access');
+    const after = new TokenCipher('new-secret', ['old-secret']);
+
+    assert.notEqual(after.currentKeyId, before.currentKeyId);
+    assert.ok(after.canDecrypt(before.currentKeyId));
+    assert.equal(after.decrypt(sealed, before.currentKeyId, 'tok_1:access'), 'gho_secret');
+    assert.throws(() => after.decrypt(after.encrypt('x', 'ad'), before.currentKeyId, 'ad'));
+  });
+
+  it('cannot decrypt once the old key is dropped', () => {
+    const before = new TokenCipher('old-secret');
+
+    assert.equal(new TokenCipher('new-secret').canDecrypt(before.currentKeyId), false);
+  });
+});
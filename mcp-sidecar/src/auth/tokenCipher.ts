@@ -0,0 +1,73 @@
+import crypto from 'node:crypto';
+
+type EncryptionKey = {
+  id: string;
+  key: Buffer;
+};
+
+const PAYLOAD_VERSION = 'v1';
+
+function deriveKey(secret: string): EncryptionKey {
+  return {
+    id: crypto.createHash('sha256').update(`kid:${secret}`).digest('hex').slice(0, 12),
+    key: crypto.createHash('sha256').update(secret).digest(),
+  };
+}
+
+/**
+ * AES-256-GCM encryption for OAuth tokens at rest. The current key encrypts,
+ * previous keys are only kept around to decrypt records written before a rotation.
+ */
+export class TokenCipher {
+  private readonly current: EncryptionKey;
+  private readonly keys = new Map<string, EncryptionKey>();
+
+  constructor(currentSecret: string, previousSecrets: string[] = []) {
+    this.current = deriveKey(currentSecret);
+    this.keys.set(this.current.id, this.current);
+
+    for (const secret of previousSecrets) {
+      const key = deriveKey(secret);
+      if (!this.keys.has(key.id)) {
+        this.keys.set(key.id, key);
+      }
+    }
+  }
+
+  get currentKeyId(): string {
+    return this.current.id;
+  }
+
+  canDecrypt(keyId: string): boolean {
+    return this.keys.has(keyId);
+  }
+
+  encrypt(plaintext: string, associatedData: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.current.key, iv);
+    cipher.setAAD(Buffer.from(associatedData, 'utf8'));
+
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [PAYLOAD_VERSION, iv.toString('base64url'), tag.toString('base64url'), ciphertext.toString('base64url')].join('.');
+  }
+
+  decrypt(payload: string, keyId: string, associatedData: string): string {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`No encryption key configured for key id ${keyId}`);
+    }
+
+    const [version, iv, tag, ciphertext] = payload.split('.');
+    if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Encrypted token payload is malformed');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key.key, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(associatedData, 'utf8'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  }
+}
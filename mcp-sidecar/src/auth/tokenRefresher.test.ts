@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Logger } from '../logger.js';
+import { MemoryStorageBackend } from '../store/memoryStorage.js';
+import { TokenStore, type OAuthTokenRecord } from '../store/tokenStore.js';
+import type { IdentityProvider, ProviderTokenFields } from './identityProvider.js';
+import { TokenCipher } from './tokenCipher.js';
+import { TokenRefresher } from './tokenRefresher.js';
+
+const MINUTE_MS = 60 * 1000;
+
+function record(fields: Partial<OAuthTokenRecord> = {}): OAuthTokenRecord {
+  return {
+    tokenId: 'tok_1',
+    accessToken: 'ghu_old',
+    refreshToken: 'ghr_old',
+    provider: 'github',
+    userLogin: 'octocat',
+    userId: 1,
+    expiresAt: Date.now() + MINUTE_MS,
+    refreshTokenExpiresAt: Date.now() + 30 * 24 * 60 * MINUTE_MS,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+// A provider whose refresh answers with `respond`, counting the refresh tokens it was given.
+function setUp(respond: (refreshToken: string) => Promise<ProviderTokenFields>) {
+  const used: string[] = [];
+  const provider = {
+    id: 'github',
+    refresh: async (refreshToken: string) => {
+      used.push(refreshToken);
+      return respond(refreshToken);
+    },
+  } as IdentityProvider;
+  const tokenStore = new TokenStore(new MemoryStorageBackend(), new TokenCipher('secret'));
+  const refresher = new TokenRefresher(tokenStore, new Map([['github', provider]]), {
+    refreshSkewMs: 5 * MINUTE_MS,
+    logger: new Logger('error'),
+  });
+
+  return { tokenStore, refresher, used };
+}
+
+const rotated = async (): Promise<ProviderTokenFields> => ({
+  accessToken: 'ghu_new',
+  refreshToken: 'ghr_new',
+  expiresAt: Date.now() + 8 * 60 * MINUTE_MS,
+});
+
+describe('TokenRefresher', () => {
+  it('hands out tokens that are not close to expiring without refreshing them', async () => {
+    const { tokenStore, refresher, used } = setUp(rotated);
+    const fresh = record({ expiresAt: Date.now() + 60 * MINUTE_MS });
+    tokenStore.set(fresh);
+    tokenStore.set(record({ tokenId: 'tok_2', expiresAt: undefined }));
+
+    assert.deepEqual(await refresher.resolve('tok_1'), fresh);
+    assert.equal((await refresher.resolve('tok_2'))?.accessToken, 'ghu_old');
+    assert.equal(await refresher.resolve('tok_unknown'), undefined);
+    assert.deepEqual(used, []);
+  });
+
+  it('refreshes tokens within the skew of their expiry and stores the new ones', async () => {
+    const { tokenStore, refresher, used } = setUp(rotated);
+    tokenStore.set(record());
+
+    const refreshed = await refresher.resolve('tok_1');
+
+    assert.deepEqual(used, ['ghr_old']);
+    assert.equal(refreshed?.accessToken, 'ghu_new');
+    assert.equal(refreshed?.userLogin, 'octocat');
+    assert.deepEqual(tokenStore.get('tok_1'), refreshed);
+  });
+
+  it('shares one refresh between concurrent requests for the same token', async () => {
+    const { tokenStore, refresher, used } = setUp(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return rotated();
+    });
+    tokenStore.set(record());
+
+    const results = await Promise.all([refresher.resolve('tok_1'), refresher.resolve('tok_1'), refresher.resolve('tok_1')]);
+
+    assert.deepEqual(used, ['ghr_old']);
+    assert.ok(results.every((result) => result?.accessToken === 'ghu_new'));
+  });
+
+  it('keeps the refresh token when the response does not carry a new one', async () => {
+    const { tokenStore, refresher } = setUp(async () => ({
+      accessToken: 'ghu_new',
+      refreshToken: undefined,
+      refreshTokenExpiresAt: undefined,
+      expiresAt: Date.now() + 8 * 60 * MINUTE_MS,
+    }));
+    const stale = record();
+    tokenStore.set(stale);
+
+    await refresher.resolve('tok_1');
+
+    assert.equal(tokenStore.get('tok_1')?.accessToken, 'ghu_new');
+    assert.equal(tokenStore.get('tok_1')?.refreshToken, 'ghr_old');
+    assert.equal(tokenStore.get('tok_1')?.refreshTokenExpiresAt, stale.refreshTokenExpiresAt);
+  });
+
+  it('signs the user out when the provider refuses the refresh', async () => {
+    const { tokenStore, refresher } = setUp(async () => {
+      throw new Error('The refresh token passed is incorrect or expired.');
+    });
+    tokenStore.set(record());
+
+    assert.equal(await refresher.resolve('tok_1'), undefined);
+    assert.equal(tokenStore.get('tok_1'), undefined);
+  });
+
+  it('signs the user out once a token without a usable refresh token runs out', async () => {
+    const { tokenStore, refresher, used } = setUp(rotated);
+    tokenStore.set(record({ refreshToken: undefined }));
+    tokenStore.set(record({ tokenId: 'tok_2', refreshToken: undefined, expiresAt: Date.now() - 1 }));
+    tokenStore.set(record({ tokenId: 'tok_3', refreshTokenExpiresAt: Date.now() - 1 }));
+
+    assert.equal((await refresher.resolve('tok_1'))?.accessToken, 'ghu_old');
+    assert.equal(await refresher.resolve('tok_2'), undefined);
+    assert.equal(await refresher.resolve('tok_3'), undefined);
+    assert.equal(tokenStore.get('tok_3'), undefined);
+    assert.deepEqual(used, []);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Logger } from '../logger.js';
+import type { OAuthTokenRecord, TokenStore } from '../store/tokenStore.js';
+import { providerIdOf, type IdentityProvider } from './identityProvider.js';
+
+/**
+ * Hands out token records that are safe to use against their provider. Tokens close to
+ * their expiry are refreshed first; tokens that have expired or failed to refresh
+ * are removed, so callers see them as signed out.
+ */
+export class TokenRefresher {
+  private readonly inFlight = new Map<string, Promise<OAuthTokenRecord | undefined>>();
+
+  constructor(
+    private readonly tokenStore: TokenStore,
+    private readonly providers: Map<string, IdentityProvider>,
+    private readonly options: { refreshSkewMs: number; logger: Logger },
+  ) {}
+
+  async resolve(tokenId: string): Promise<OAuthTokenRecord | undefined> {
+    const record = this.tokenStore.get(tokenId);
+    if (!record || !record.expiresAt || record.expiresAt - this.options.refreshSkewMs > Date.now()) {
+      return record;
+    }
+
+    // Providers like GitHub invalidate a refresh token once it is used, so concurrent requests share one refresh.
+    let pending = this.inFlight.get(tokenId);
+    if (!pending) {
+      pending = this.refresh(record).finally(() => this.inFlight.delete(tokenId));
+      this.inFlight.set(tokenId, pending);
+    }
+
+    return pending;
+  }
+
+  private async refresh(record: OAuthTokenRecord): Promise<OAuthTokenRecord | undefined> {
+    const { refreshToken, refreshTokenExpiresAt } = record;
+    if (!refreshToken || (refreshTokenExpiresAt && refreshTokenExpiresAt <= Date.now())) {
+      return this.expire(record, 'no usable refresh token');
+    }
+
+    const provider = this.providers.get(providerIdOf(record));
+    if (!provider) {
+      return this.expire(record, `provider ${providerIdOf(record)} is not configured`);
+    }
+
+    try {
+      const fields = await provider.refresh(refreshToken);
+      // A response without a refresh token leaves the current one in place rather than dropping it.
+      const refreshed: OAuthTokenRecord = fields.refreshToken
+        ? { ...record, ...fields }
+        : { ...record, ...fields, refreshToken, refreshTokenExpiresAt };
+      this.tokenStore.set(refreshed);
+      this.options.logger.debug('provider token refreshed', { provider: provider.id, user: record.userLogin });
+      return refreshed;
+    } catch (error) {
+      return this.expire(record, error instanceof Error ? error.message : 'refresh failed');
+    }
+  }
+
+  private expire(record: OAuthTokenRecord, reason: string): OAuthTokenRecord | undefined {
+    // Without a refresh token there is nothing to retry, so use the token until it actually runs out.
+    if (!record.refreshToken && record.expiresAt && record.expiresAt > Date.now()) {
+      return record;
+    }
+
+    this.options.logger.warn('provider token expired', { provider: providerIdOf(record), user: record.userLogin, reason });
+    this.tokenStore.delete(record.tokenId);
+    return undefined;
+  }
+}
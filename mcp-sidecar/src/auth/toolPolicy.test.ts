@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { PermissionDeniedError, ToolAccess, ToolPolicy, type PolicyIdentity } from './toolPolicy.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'tool-policy-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let written = 0;
+function loadPolicy(document: unknown): ToolPolicy {
+  const path = join(dir, `policy-${++written}.json`);
+  writeFileSync(path, JSON.stringify(document));
+  return ToolPolicy.load(path);
+}
+
+const policy = loadPolicy({
+  roles: {
+    maintainer: { users: ['octocat', 'oidc:00u1a2b3c4'], githubTeams: ['acme/maintainers'] },
+    member: { githubOrgs: ['acme'] },
+    responder: { scopes: ['repo'] },
+  },
+  tools: {
+    delete_project: [{ roles: ['maintainer'] }],
+    deploy_project: [
+      { roles: ['member'], arguments: { environment: ['staging', 'development'] } },
+      { roles: ['maintainer'] },
+    ],
+    incident_escalation: [{ roles: ['maintainer', 'responder'] }],
+    list_projects: [{ roles: ['*'] }],
+  },
+});
+
+function accessFor(identity: Partial<PolicyIdentity>): ToolAccess {
+  return policy.accessFor({ provider: 'github', scopes: [], githubOrgs: [], githubTeams: [], ...identity });
+}
+
+describe('ToolPolicy', () => {
+  it('resolves roles from logins, teams, organizations and scopes', () => {
+    assert.doesNotThrow(() => accessFor({ login: 'OctoCat' }).authorize('delete_project', {}));
+    assert.doesNotThrow(() => accessFor({ provider: 'oidc', subject: '00u1a2b3c4' }).authorize('delete_project', {}));
+    assert.doesNotThrow(() => accessFor({ githubTeams: ['ACME/maintainers'] }).authorize('delete_project', {}));
+    assert.doesNotThrow(() => accessFor({ githubOrgs: ['acme'] }).authorize('deploy_project', { environment: 'staging' }));
+    assert.doesNotThrow(() => accessFor({ scopes: ['repo'] }).authorize('incident_escalation', {}));
+  });
+
+  it('does not take a login from another provider for a GitHub login', () => {
+    assert.throws(() => accessFor({ provider: 'oidc', login: 'octocat' }).authorize('delete_project', {}), PermissionDeniedError);
+  });
+
+  it('matches OIDC users by subject, not by the name they display', () => {
+    const impostor = accessFor({ provider: 'oidc', login: 'alice', subject: 'oidc:00u1a2b3c4' });
+
+    assert.throws(() => impostor.authorize('delete_project', {}), PermissionDeniedError);
+    assert.throws(() => accessFor({ provider: 'oidc', login: '00u1a2b3c4' }).authorize('delete_project', {}), PermissionDeniedError);
+    assert.throws(() => accessFor({ provider: 'oidc', subject: '00U1A2B3C4' }).authorize('delete_project', {}), PermissionDeniedError);
+  });
+
+  it('only lets argument-constrained rules cover calls with matching arguments', () => {
+    const member = accessFor({ githubOrgs: ['acme'] });
+
+    assert.doesNotThrow(() => member.authorize('deploy_project', { project_id: 'proj_1', environment: 'development' }));
+    assert.throws(
+      () => member.authorize('deploy_project', { project_id: 'proj_1', environment: 'production' }),
+      (error) =>
+        error instanceof PermissionDeniedError &&
+        error.message === 'Permission denied: deploy_project with environment=production requires the maintainer role.',
+    );
+    assert.throws(() => member.authorize('deploy_project', { project_id: 'proj_1' }), PermissionDeniedError);
+    assert.throws(() => member.authorize('deploy_project', { environment: 'Staging' }), PermissionDeniedError);
+  });
+
+  it('reports tools no argument values would open as never callable', () => {
+    const member = accessFor({ githubOrgs: ['acme'] });
+
+    assert.equal(member.canEverCall('deploy_project'), true);
+    assert.equal(member.canEverCall('delete_project'), false);
+    assert.equal(member.canEverCall('list_projects'), true);
+    assert.equal(member.canEverCall('create_project'), true);
+    assert.throws(
+      () => member.authorize('delete_project', {}),
+      /Permission denied: delete_project requires the maintainer role\./,
+    );
+  });
+
+  it('leaves tools the policy does not mention open, also without a policy', () => {
+    assert.doesNotThrow(() => accessFor({}).authorize('create_project', { name: 'x' }));
+    assert.doesNotThrow(() => ToolAccess.unrestricted().authorize('delete_project', {}));
+    assert.equal(ToolAccess.unrestricted().canEverCall('delete_project'), true);
+  });
+
+  it('knows whether it needs GitHub memberships', () => {
+    assert.equal(policy.usesGitHubMemberships(), true);
+    assert.equal(loadPolicy({ roles: { admin: { users: ['octocat'] } } }).usesGitHubMemberships(), false);
+  });
+
+  it('refuses rules that use undefined roles and malformed documents', () => {
+    assert.throws(
+      () => loadPolicy({ roles: {}, tools: { delete_project: [{ roles: ['admin'] }] } }),
+      /uses undefined role "admin"/,
+    );
+    assert.throws(() => loadPolicy({ tools: { delete_project: [{ roles: [] }] } }));
+    assert.throws(() => ToolPolicy.load(join(dir, 'missing.json')), /Could not read the tool policy/);
+  });
+});
@@ -0,0 +1,170 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+// A rule role that matches every signed-in user.
+const ANY_ROLE = '*';
+
+const roleSchema = z.object({
+  // `github:login` (or a bare GitHub login), or `provider:sub` for OIDC providers.
+  users: z.array(z.string()).default([]),
+  githubOrgs: z.array(z.string()).default([]),
+  // `org/team-slug`.
+  githubTeams: z.array(z.string()).default([]),
+  scopes: z.array(z.string()).default([]),
+});
+
+const ruleSchema = z.object({
+  roles: z.array(z.string()).min(1),
+  // Argument name to allowed values. A rule only covers calls whose arguments all match.
+  arguments: z.record(z.string(), z.array(z.union([z.string(), z.number(), z.boolean()]))).default({}),
+});
+
+const policySchema = z.object({
+  roles: z.record(z.string(), roleSchema).default({}),
+  tools: z.record(z.string(), z.array(ruleSchema)).default({}),
+});
+
+type PolicyDocument = z.infer<typeof policySchema>;
+type ToolRule = z.infer<typeof ruleSchema>;
+
+/** Thrown when the policy does not let the user make a tool call. */
+export class PermissionDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/** What the policy knows about a signed-in user. GitHub memberships are only looked up when the policy uses them. */
+export type PolicyIdentity = {
+  provider: string;
+  login?: string;
+  // The provider's stable user id; OIDC users are matched on it (their `sub`).
+  subject?: string;
+  scopes: string[];
+  githubOrgs: string[];
+  githubTeams: string[];
+};
+
+// GitHub logins are unique and case-insensitive; an OIDC `sub` is only unique as given.
+function userKey(provider: string, name: string): string {
+  return provider === 'github' ? `github:${name.toLowerCase()}` : `${provider}:${name}`;
+}
+
+function normalize(values: string[]): Set<string> {
+  return new Set(values.map((value) => value.toLowerCase()));
+}
+
+function matchesArguments(rule: ToolRule, args: Record<string, unknown>): boolean {
+  return Object.entries(rule.arguments).every(([name, allowed]) =>
+    allowed.some((value) => value === args[name]),
+  );
+}
+
+/**
+ * Maps identities to roles and says which roles may call which tools. Tools the
+ * policy does not mention stay open to every signed-in user.
+ */
+export class ToolPolicy {
+  private constructor(private readonly document: PolicyDocument) {}
+
+  static load(path: string): ToolPolicy {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read the tool policy at ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const document = policySchema.parse(raw);
+    for (const [tool, rules] of Object.entries(document.tools)) {
+      for (const role of rules.flatMap((rule) => rule.roles)) {
+        if (role !== ANY_ROLE && !document.roles[role]) {
+          throw new Error(`Tool policy rule for ${tool} uses undefined role "${role}".`);
+        }
+      }
+    }
+
+    return new ToolPolicy(document);
+  }
+
+  /** Whether resolving roles needs the user's GitHub organizations and teams. */
+  usesGitHubMemberships(): boolean {
+    return Object.values(this.document.roles).some((role) => role.githubOrgs.length > 0 || role.githubTeams.length > 0);
+  }
+
+  accessFor(identity: PolicyIdentity): ToolAccess {
+    const user = userKey(identity.provider, (identity.provider === 'github' ? identity.login : identity.subject) ?? '');
+    const orgs = normalize(identity.githubOrgs);
+    const teams = normalize(identity.githubTeams);
+    const scopes = new Set(identity.scopes);
+
+    const roles = Object.entries(this.document.roles)
+      .filter(
+        ([, role]) =>
+          role.users.some((entry) => {
+            const separator = entry.indexOf(':');
+            return separator === -1
+              ? userKey('github', entry) === user
+              : userKey(entry.slice(0, separator).toLowerCase(), entry.slice(separator + 1)) === user;
+          }) ||
+          role.githubOrgs.some((org) => orgs.has(org.toLowerCase())) ||
+          role.githubTeams.some((team) => teams.has(team.toLowerCase())) ||
+          role.scopes.some((scope) => scopes.has(scope)),
+      )
+      .map(([name]) => name);
+
+    return new ToolAccess(roles, this.document.tools);
+  }
+}
+
+/** The tool permissions of one signed-in user, as decided by a `ToolPolicy`. */
+export class ToolAccess {
+  private readonly roles: Set<string>;
+
+  constructor(
+    roles: string[],
+    private readonly tools: Record<string, ToolRule[]> = {},
+  ) {
+    this.roles = new Set([ANY_ROLE, ...roles]);
+  }
+
+  /** Access for deployments without a policy: every tool is allowed. */
+  static unrestricted(): ToolAccess {
+    return new ToolAccess([]);
+  }
+
+  /** False when no argument values would let this user call `tool`; such tools are hidden from `tools/list`. */
+  canEverCall(tool: string): boolean {
+    const rules = this.tools[tool];
+    return !rules || rules.some((rule) => this.holdsAny(rule.roles));
+  }
+
+  /** Throws when the user may not call `tool` with `args`. */
+  authorize(tool: string, args: Record<string, unknown>): void {
+    const rules = this.tools[tool];
+    if (!rules) {
+      return;
+    }
+
+    const applicable = rules.filter((rule) => matchesArguments(rule, args));
+    if (applicable.some((rule) => this.holdsAny(rule.roles))) {
+      return;
+    }
+
+    const constrained = [...new Set(rules.flatMap((rule) => Object.keys(rule.arguments)))]
+      .map((name) => `${name}=${String(args[name])}`)
+      .join(', ');
+    const required = [...new Set(applicable.flatMap((rule) => rule.roles))];
+
+    throw new PermissionDeniedError(
+      required.length > 0
+        ? `Permission denied: ${tool}${constrained ? ` with ${constrained}` : ''} requires the ${required.join(' or ')} role.`
+        : `Permission denied: no policy rule allows ${tool} with these arguments.`,
+    );
+  }
+
+  private holdsAny(roles: string[]): boolean {
+    return roles.some((role) => this.roles.has(role));
+  }
+}
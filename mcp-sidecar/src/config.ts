@@ -1,37 +1,304 @@
+import { isIP } from 'node:net';
 import { z } from 'zod';
 
+const INSECURE_ENCRYPTION_KEYS = new Set(['local-dev-key-change-me', 'change-me-local-dev-only']);
+
+// The fake GitHub signs anyone in as anyone, so it only runs in these environments.
+const FAKE_OAUTH_ENVIRONMENTS = new Set(['local', 'testing']);
+
 const schema = z.object({
+  APP_ENV: z.string().default('local'),
   MCP_APPS_PORT: z.coerce.number().default(3232),
   MCP_APPS_HOST: z.string().default('127.0.0.1'),
   MCP_APPS_BASE_URL: z.string().default('http://127.0.0.1:3232'),
+  MCP_LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   MCP_ALLOWED_ORIGINS: z.string().default('http://127.0.0.1:8000,http://localhost:8000'),
+  MCP_ALLOWED_HOSTS: z.string().default(''),
+  MCP_TRUSTED_PROXIES: z.string().default(''),
   GITHUB_CLIENT_ID: z.string().default(''),
   GITHUB_CLIENT_SECRET: z.string().default(''),
+  GITHUB_BASE_URL: z.string().default('https://github.com'),
+  GITHUB_API_URL: z.string().default('https://api.github.com'),
+  MCP_FAKE_OAUTH: z.stringbool().default(false),
+  MCP_FAKE_OAUTH_USERS: z.string().default('octocat,hubot,monalisa'),
+  MCP_OIDC_PROVIDERS: z.string().default(''),
+  MCP_TOOL_POLICY_PATH: z.string().default(''),
+  MCP_SHARED_PROJECT_ORGS: z.string().default(''),
   MCP_OAUTH_ENCRYPTION_KEY: z.string().default('local-dev-key-change-me'),
+  MCP_OAUTH_PREVIOUS_ENCRYPTION_KEYS: z.string().default(''),
+  MCP_OAUTH_REFRESH_SKEW_SECONDS: z.coerce.number().nonnegative().default(5 * 60),
+  MCP_OAUTH_ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().positive().default(60 * 60),
+  MCP_OAUTH_REFRESH_TOKEN_TTL_SECONDS: z.coerce.number().positive().default(30 * 24 * 60 * 60),
+  MCP_OAUTH_SIGNING_KEY_ROTATION_SECONDS: z.coerce.number().positive().default(7 * 24 * 60 * 60),
+  MCP_OAUTH_MAX_CLIENTS: z.coerce.number().int().positive().default(1000),
+  MCP_OAUTH_REDIRECT_SCHEMES: z.string().default(''),
+  MCP_INTROSPECTION_CLIENT_ID: z.string().default('laravel'),
+  MCP_INTROSPECTION_CLIENT_SECRET: z.string().default(''),
+  MCP_ADMIN_TOKEN: z.string().default(''),
+  MCP_AUDIT_RETENTION_DAYS: z.coerce.number().nonnegative().default(90),
+  MCP_METRICS_TOKEN: z.string().default(''),
+  MCP_METRICS_PORT: z.coerce.number().int().nonnegative().default(0),
+  MCP_METRICS_HOST: z.string().default('127.0.0.1'),
+  MCP_RATE_LIMIT_OAUTH_PER_MINUTE: z.coerce.number().int().nonnegative().default(60),
+  MCP_RATE_LIMIT_MCP_PER_MINUTE: z.coerce.number().int().nonnegative().default(600),
+  MCP_RATE_LIMIT_TOKEN_PER_MINUTE: z.coerce.number().int().nonnegative().default(300),
+  MCP_RATE_LIMIT_TOOL_PER_MINUTE: z.coerce.number().int().nonnegative().default(60),
+  MCP_RATE_LIMIT_TOOLS: z.string().default('deploy_project=10'),
+  MCP_SESSION_IDLE_TTL_SECONDS: z.coerce.number().positive().default(30 * 60),
+  MCP_SESSION_MAX_LIFETIME_SECONDS: z.coerce.number().positive().default(12 * 60 * 60),
+  MCP_SESSION_SWEEP_INTERVAL_SECONDS: z.coerce.number().positive().default(60),
+  MCP_SHUTDOWN_TIMEOUT_SECONDS: z.coerce.number().nonnegative().default(10),
+  MCP_DEPLOY_STEP_MS: z.coerce.number().nonnegative().default(1500),
+  MCP_DEPLOY_FAILURE_RATE: z.coerce.number().min(0).max(1).default(0),
+  MCP_EVENT_STORE_DRIVER: z.enum(['memory', 'file']).default('memory'),
+  MCP_EVENT_STORE_DIR: z.string().default('data/events'),
+  MCP_EVENT_STORE_MAX_EVENTS: z.coerce.number().int().positive().default(200),
+  MCP_STORAGE_DRIVER: z.enum(['memory', 'sqlite']).default('sqlite'),
+  MCP_STORAGE_PATH: z.string().default('data/sidecar.sqlite'),
 });
 
+export type OidcProviderConfig = {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+};
+
+const oidcProviderSchema = z.object({
+  ISSUER: z.url(),
+  CLIENT_ID: z.string().min(1),
+  CLIENT_SECRET: z.string().min(1),
+  NAME: z.string().optional(),
+  SCOPE: z.string().default('openid profile email'),
+});
+
+/** Reads `MCP_OIDC_<ID>_*` for every id listed in `MCP_OIDC_PROVIDERS`. */
+function loadOidcProviders(ids: string, env: NodeJS.ProcessEnv): OidcProviderConfig[] {
+  return ids
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map((id) => {
+      if (!/^[a-z0-9-]+$/.test(id) || id === 'github') {
+        throw new Error(`MCP_OIDC_PROVIDERS entry "${id}" must be lowercase letters, digits or dashes and not "github".`);
+      }
+
+      const prefix = `MCP_OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+      const parsed = oidcProviderSchema.parse({
+        ISSUER: env[`${prefix}ISSUER`],
+        CLIENT_ID: env[`${prefix}CLIENT_ID`],
+        CLIENT_SECRET: env[`${prefix}CLIENT_SECRET`],
+        NAME: env[`${prefix}NAME`],
+        SCOPE: env[`${prefix}SCOPE`],
+      });
+
+      return {
+        id,
+        name: parsed.NAME ?? id,
+        issuer: parsed.ISSUER,
+        clientId: parsed.CLIENT_ID,
+        clientSecret: parsed.CLIENT_SECRET,
+        scope: parsed.SCOPE,
+      };
+    });
+}
+
+/** Parses `tool=limit` pairs, e.g. `deploy_project=10,create_project=30`. */
+function parseToolRateLimits(value: string): Record<string, number> {
+  return Object.fromEntries(
+    value
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [tool, limit] = entry.split('=').map((part) => part.trim());
+        if (!tool || !/^\d+$/.test(limit ?? '')) {
+          throw new Error(`MCP_RATE_LIMIT_TOOLS entry "${entry}" must look like tool_name=requests_per_minute.`);
+        }
+
+        return [tool, Number(limit)];
+      }),
+  );
+}
+
+// Names Express's `trust proxy` setting accepts for the loopback, link-local and private ranges.
+const PROXY_RANGE_NAMES = new Set(['loopback', 'linklocal', 'uniquelocal']);
+
+/** Parses the trusted proxy list: IP addresses, CIDR ranges or one of the range names above. */
+function parseTrustedProxies(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [address, prefix] = entry.split('/');
+      const family = isIP(address);
+      const maxPrefix = family === 6 ? 128 : 32;
+      const valid =
+        PROXY_RANGE_NAMES.has(entry) ||
+        (family !== 0 && (prefix === undefined || (/^\d+$/.test(prefix) && Number(prefix) <= maxPrefix)));
+      if (!valid) {
+        throw new Error(`MCP_TRUSTED_PROXIES entry "${entry}" must be an IP address, a CIDR range, loopback, linklocal or uniquelocal.`);
+      }
+
+      return entry;
+    });
+}
+
+// Schemes a native app's private-use redirect URI may not use: the web ones are handled
+// separately and the rest can run script or read local files.
+const RESERVED_REDIRECT_SCHEMES = new Set(['http', 'https', 'javascript', 'data', 'file', 'blob', 'vbscript', 'about']);
+
+/** Parses the private-use URI schemes (RFC 8252) native clients may register redirect URIs with. */
+function parseRedirectSchemes(value: string): string[] {
+  return value
+    .split(',')
+    .map((scheme) => scheme.trim().toLowerCase().replace(/:$/, ''))
+    .filter(Boolean)
+    .map((scheme) => {
+      if (!/^[a-z][a-z0-9+.-]*$/.test(scheme) || RESERVED_REDIRECT_SCHEMES.has(scheme)) {
+        throw new Error(`MCP_OAUTH_REDIRECT_SCHEMES entry "${scheme}" must be a private-use URI scheme such as com.example.app.`);
+      }
+
+      return scheme;
+    });
+}
+
+/**
+ * The Host values the sidecar answers to. The host of `MCP_APPS_BASE_URL` is always
+ * allowed; without `MCP_ALLOWED_HOSTS` the loopback names are too. Entries without a
+ * port match any port.
+ */
+function parseAllowedHosts(value: string, baseUrl: string): Set<string> {
+  const configured = value.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean);
+  const hosts = configured.length > 0 ? configured : ['localhost', '127.0.0.1', '[::1]'];
+  return new Set([new URL(baseUrl).host, ...hosts]);
+}
+
 export type SidecarConfig = {
+  environment: string;
   port: number;
   host: string;
   baseUrl: string;
+  logLevel: 'debug' | 'info' | 'warn' | 'error';
   allowedOrigins: Set<string>;
+  allowedHosts: Set<string>;
+  // Passed to Express's `trust proxy`; empty trusts no one, so X-Forwarded-* is ignored.
+  trustedProxies: string[];
   githubClientId: string;
   githubClientSecret: string;
+  githubWebUrl: string;
+  githubApiUrl: string;
+  fakeOAuth: boolean;
+  fakeOAuthUsers: string[];
+  oidcProviders: OidcProviderConfig[];
+  toolPolicyPath: string;
+  sharedProjectOrgs: string[];
   oauthEncryptionKey: string;
+  oauthPreviousEncryptionKeys: string[];
+  oauthRefreshSkewMs: number;
+  oauthAccessTokenTtlMs: number;
+  oauthRefreshTokenTtlMs: number;
+  oauthSigningKeyRotationMs: number;
+  oauthMaxClients: number;
+  oauthRedirectSchemes: string[];
+  introspectionClientId: string;
+  introspectionClientSecret: string;
+  adminToken: string;
+  // 0 keeps audit records forever.
+  auditRetentionMs: number;
+  metricsToken: string;
+  // 0 serves /metrics on the main port (only with a token); otherwise on its own listener.
+  metricsPort: number;
+  metricsHost: string;
+  // Requests per minute; 0 disables a limit.
+  rateLimitOAuthPerMinute: number;
+  rateLimitMcpPerMinute: number;
+  rateLimitTokenPerMinute: number;
+  rateLimitToolPerMinute: number;
+  rateLimitTools: Record<string, number>;
+  sessionIdleTtlMs: number;
+  sessionMaxLifetimeMs: number;
+  sessionSweepIntervalMs: number;
+  shutdownTimeoutMs: number;
+  deployStepMs: number;
+  deployFailureRate: number;
+  eventStoreDriver: 'memory' | 'file';
+  eventStoreDir: string;
+  eventStoreMaxEvents: number;
+  storageDriver: 'memory' | 'sqlite';
+  storagePath: string;
 };
 
 export function loadConfig(env: NodeJS.ProcessEnv): SidecarConfig {
   const parsed = schema.parse(env);
 
+  if (parsed.APP_ENV !== 'local' && INSECURE_ENCRYPTION_KEYS.has(parsed.MCP_OAUTH_ENCRYPTION_KEY)) {
+    throw new Error(
+      `MCP_OAUTH_ENCRYPTION_KEY still uses the development default. Set a real key before running in ${parsed.APP_ENV}.`,
+    );
+  }
+
+  if (parsed.MCP_FAKE_OAUTH && !FAKE_OAUTH_ENVIRONMENTS.has(parsed.APP_ENV)) {
+    throw new Error(`MCP_FAKE_OAUTH is only allowed with APP_ENV=local or testing, not ${parsed.APP_ENV}.`);
+  }
+
+  // In fake mode the sidecar serves GitHub's OAuth and user endpoints itself under /fake-github.
+  const fakeGitHubUrl = `${parsed.MCP_APPS_BASE_URL.replace(/\/$/, '')}/fake-github`;
+
   return {
+    environment: parsed.APP_ENV,
     port: parsed.MCP_APPS_PORT,
     host: parsed.MCP_APPS_HOST,
-    baseUrl: parsed.MCP_APPS_BASE_URL,
+    // The OAuth issuer, so it must not end in a slash; tokens and metadata compare it verbatim.
+    baseUrl: parsed.MCP_APPS_BASE_URL.replace(/\/$/, ''),
+    logLevel: parsed.MCP_LOG_LEVEL,
     allowedOrigins: new Set(
       parsed.MCP_ALLOWED_ORIGINS.split(',').map((origin) => origin.trim()).filter(Boolean),
     ),
-    githubClientId: parsed.GITHUB_CLIENT_ID,
-    githubClientSecret: parsed.GITHUB_CLIENT_SECRET,
+    allowedHosts: parseAllowedHosts(parsed.MCP_ALLOWED_HOSTS, parsed.MCP_APPS_BASE_URL),
+    trustedProxies: parseTrustedProxies(parsed.MCP_TRUSTED_PROXIES),
+    githubClientId: parsed.GITHUB_CLIENT_ID || (parsed.MCP_FAKE_OAUTH ? 'fake-github-client' : ''),
+    githubClientSecret: parsed.GITHUB_CLIENT_SECRET || (parsed.MCP_FAKE_OAUTH ? 'fake-github-secret' : ''),
+    githubWebUrl: parsed.MCP_FAKE_OAUTH ? fakeGitHubUrl : parsed.GITHUB_BASE_URL.replace(/\/$/, ''),
+    githubApiUrl: parsed.MCP_FAKE_OAUTH ? `${fakeGitHubUrl}/api` : parsed.GITHUB_API_URL.replace(/\/$/, ''),
+    fakeOAuth: parsed.MCP_FAKE_OAUTH,
+    fakeOAuthUsers: parsed.MCP_FAKE_OAUTH_USERS.split(',').map((login) => login.trim()).filter(Boolean),
+    oidcProviders: loadOidcProviders(parsed.MCP_OIDC_PROVIDERS, env),
+    toolPolicyPath: parsed.MCP_TOOL_POLICY_PATH,
+    sharedProjectOrgs: parsed.MCP_SHARED_PROJECT_ORGS.split(',').map((org) => org.trim()).filter(Boolean),
     oauthEncryptionKey: parsed.MCP_OAUTH_ENCRYPTION_KEY,
+    oauthPreviousEncryptionKeys: parsed.MCP_OAUTH_PREVIOUS_ENCRYPTION_KEYS.split(',').map((key) => key.trim()).filter(Boolean),
+    oauthRefreshSkewMs: parsed.MCP_OAUTH_REFRESH_SKEW_SECONDS * 1000,
+    oauthAccessTokenTtlMs: parsed.MCP_OAUTH_ACCESS_TOKEN_TTL_SECONDS * 1000,
+    oauthRefreshTokenTtlMs: parsed.MCP_OAUTH_REFRESH_TOKEN_TTL_SECONDS * 1000,
+    oauthSigningKeyRotationMs: parsed.MCP_OAUTH_SIGNING_KEY_ROTATION_SECONDS * 1000,
+    oauthMaxClients: parsed.MCP_OAUTH_MAX_CLIENTS,
+    oauthRedirectSchemes: parseRedirectSchemes(parsed.MCP_OAUTH_REDIRECT_SCHEMES),
+    introspectionClientId: parsed.MCP_INTROSPECTION_CLIENT_ID,
+    introspectionClientSecret: parsed.MCP_INTROSPECTION_CLIENT_SECRET,
+    adminToken: parsed.MCP_ADMIN_TOKEN,
+    auditRetentionMs: parsed.MCP_AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    metricsToken: parsed.MCP_METRICS_TOKEN,
+    metricsPort: parsed.MCP_METRICS_PORT,
+    metricsHost: parsed.MCP_METRICS_HOST,
+    rateLimitOAuthPerMinute: parsed.MCP_RATE_LIMIT_OAUTH_PER_MINUTE,
+    rateLimitMcpPerMinute: parsed.MCP_RATE_LIMIT_MCP_PER_MINUTE,
+    rateLimitTokenPerMinute: parsed.MCP_RATE_LIMIT_TOKEN_PER_MINUTE,
+    rateLimitToolPerMinute: parsed.MCP_RATE_LIMIT_TOOL_PER_MINUTE,
+    rateLimitTools: parseToolRateLimits(parsed.MCP_RATE_LIMIT_TOOLS),
+    sessionIdleTtlMs: parsed.MCP_SESSION_IDLE_TTL_SECONDS * 1000,
+    sessionMaxLifetimeMs: parsed.MCP_SESSION_MAX_LIFETIME_SECONDS * 1000,
+    sessionSweepIntervalMs: parsed.MCP_SESSION_SWEEP_INTERVAL_SECONDS * 1000,
+    shutdownTimeoutMs: parsed.MCP_SHUTDOWN_TIMEOUT_SECONDS * 1000,
+    deployStepMs: parsed.MCP_DEPLOY_STEP_MS,
+    deployFailureRate: parsed.MCP_DEPLOY_FAILURE_RATE,
+    eventStoreDriver: parsed.MCP_EVENT_STORE_DRIVER,
+    eventStoreDir: parsed.MCP_EVENT_STORE_DIR,
+    eventStoreMaxEvents: parsed.MCP_EVENT_STORE_MAX_EVENTS,
+    storageDriver: parsed.MCP_STORAGE_DRIVER,
+    storagePath: parsed.MCP_STORAGE_PATH,
   };
 }
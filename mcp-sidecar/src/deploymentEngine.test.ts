@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DeploymentEngine, type DeploymentRecord } from './deploymentEngine.js';
+import { MemoryStorageBackend } from './store/memoryStorage.js';
+import { ProjectStore } from './store/projectStore.js';
+
+function setUp(failureRate = 0) {
+  const storage = new MemoryStorageBackend();
+  const projects = new ProjectStore(storage);
+  const project = projects.create({ name: 'Docs', owner: 'user:github:1' });
+  const engine = new DeploymentEngine(storage, projects, { stepMs: 0, failureRate });
+  return { storage, projects, project, engine };
+}
+
+describe('DeploymentEngine', () => {
+  it('reports every stage with rising progress and activates the project', async () => {
+    const { projects, project, engine } = setUp();
+    const updates: DeploymentRecord[] = [];
+
+    const deployment = await engine.run(project.id, 'staging', (update) => {
+      updates.push(update);
+    });
+
+    assert.deepEqual(
+      updates.map(({ status, progress }) => [status, progress]),
+      [
+        ['queued', 0],
+        ['building', 30],
+        ['deploying', 70],
+        ['active', 100],
+      ],
+    );
+    assert.equal(deployment.status, 'active');
+    assert.equal(projects.get(project.id)?.status, 'active');
+    assert.equal(projects.get(project.id)?.url, `https://${project.id}.staging.example.cloud`);
+  });
+
+  it('marks the project failed when the rollout fails', async () => {
+    const { projects, project, engine } = setUp(1);
+
+    const deployment = await engine.run(project.id, 'production');
+
+    assert.equal(deployment.status, 'failed');
+    assert.equal(deployment.message, 'Health checks failed after rollout');
+    assert.equal(projects.get(project.id)?.status, 'failed');
+  });
+
+  it('refuses to deploy a project that is already deploying', async () => {
+    const { project, engine } = setUp();
+
+    const running = engine.run(project.id, 'staging');
+    await assert.rejects(engine.run(project.id, 'staging'), /cannot move from deploying to deploying/);
+    assert.equal((await running).status, 'active');
+  });
+
+  it('keeps deploying when the progress listener throws', async () => {
+    const { project, engine } = setUp();
+
+    const deployment = await engine.run(project.id, 'staging', () => {
+      throw new Error('stream closed');
+    });
+
+    assert.equal(deployment.status, 'active');
+  });
+
+  it('fails deployments a previous process left unfinished', () => {
+    const { storage, projects, project } = setUp();
+    projects.transition(project.id, 'deploying', 'staging');
+    storage.collection<DeploymentRecord>('deployments').set('dep_1', {
+      id: 'dep_1',
+      project_id: project.id,
+      environment: 'staging',
+      status: 'building',
+      progress: 30,
+      message: 'Building release artifacts',
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z',
+    });
+
+    new DeploymentEngine(storage, projects, { stepMs: 0, failureRate: 0 });
+
+    assert.equal(storage.collection<DeploymentRecord>('deployments').get('dep_1')?.status, 'failed');
+    assert.equal(projects.get(project.id)?.status, 'failed');
+  });
+});
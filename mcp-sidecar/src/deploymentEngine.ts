@@ -0,0 +1,123 @@
+import { randomUUID } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { ProjectEnvironment, ProjectStore } from './store/projectStore.js';
+import type { StorageBackend, StorageCollection } from './store/storage.js';
+
+export type DeploymentStatus = 'queued' | 'building' | 'deploying' | 'active' | 'failed';
+
+export type DeploymentRecord = {
+  id: string;
+  project_id: string;
+  environment: ProjectEnvironment;
+  status: DeploymentStatus;
+  progress: number;
+  message: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const stages: { status: DeploymentStatus; progress: number; message: string }[] = [
+  { status: 'building', progress: 30, message: 'Building release artifacts' },
+  { status: 'deploying', progress: 70, message: 'Rolling out to instances' },
+];
+
+function isFinished(deployment: DeploymentRecord): boolean {
+  return deployment.status === 'active' || deployment.status === 'failed';
+}
+
+/**
+ * Simulates a deployment pipeline. Each deployment walks queued → building →
+ * deploying → active/failed, one stage per `stepMs`, and writes the outcome
+ * back to the project.
+ */
+export class DeploymentEngine {
+  private readonly deployments: StorageCollection<DeploymentRecord>;
+
+  constructor(
+    storage: StorageBackend,
+    private readonly projects: ProjectStore,
+    private readonly options: { stepMs: number; failureRate: number },
+  ) {
+    this.deployments = storage.collection<DeploymentRecord>('deployments');
+    this.failInterrupted();
+  }
+
+  /**
+   * Starts a deployment and resolves once it has finished. `onUpdate` is called
+   * for every stage, including the initial `queued` state and the final one.
+   */
+  async run(
+    projectId: string,
+    environment: ProjectEnvironment,
+    onUpdate?: (deployment: DeploymentRecord) => void | Promise<void>,
+  ): Promise<DeploymentRecord> {
+    this.projects.transition(projectId, 'deploying', environment);
+
+    const report = async (update: DeploymentRecord) => {
+      try {
+        await onUpdate?.(update);
+      } catch {
+        // The caller went away (closed stream, cancelled request); the deployment keeps going.
+      }
+    };
+
+    const now = new Date().toISOString();
+    let deployment = this.save({
+      id: `dep_${randomUUID().slice(0, 8)}`,
+      project_id: projectId,
+      environment,
+      status: 'queued',
+      progress: 0,
+      message: 'Waiting for a build runner',
+      created_at: now,
+      updated_at: now,
+    });
+    await report(deployment);
+
+    for (const stage of stages) {
+      await sleep(this.options.stepMs);
+      deployment = this.save({ ...deployment, ...stage });
+      await report(deployment);
+    }
+
+    await sleep(this.options.stepMs);
+    const failed = Math.random() < this.options.failureRate;
+    deployment = this.save({
+      ...deployment,
+      status: failed ? 'failed' : 'active',
+      progress: 100,
+      message: failed ? 'Health checks failed after rollout' : 'Deployment is live',
+    });
+    this.finishProject(deployment);
+    await report(deployment);
+
+    return deployment;
+  }
+
+  private save(deployment: DeploymentRecord): DeploymentRecord {
+    const saved = { ...deployment, updated_at: new Date().toISOString() };
+    this.deployments.set(saved.id, saved);
+    return saved;
+  }
+
+  private finishProject(deployment: DeploymentRecord): void {
+    const project = this.projects.get(deployment.project_id);
+    if (project?.status === 'deploying') {
+      this.projects.transition(deployment.project_id, deployment.status === 'failed' ? 'failed' : 'active');
+    }
+  }
+
+  // Deployments only progress inside a running process, so anything left
+  // unfinished by a previous run can never complete.
+  private failInterrupted(): void {
+    for (const deployment of this.deployments.values()) {
+      if (isFinished(deployment)) {
+        continue;
+      }
+
+      this.finishProject(
+        this.save({ ...deployment, status: 'failed', message: 'Interrupted by a sidecar restart' }),
+      );
+    }
+  }
+}
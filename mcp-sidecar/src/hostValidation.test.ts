@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express, { type ErrorRequestHandler } from 'express';
+import { loadConfig } from './config.js';
+import { requestBaseUrl, requireAllowedHost } from './hostValidation.js';
+import { HttpError } from './httpError.js';
+
+type Reply = { status: number; body: { ip?: string; baseUrl?: string; error?: string } };
+
+// The app's host and proxy handling as server.ts sets it up, behind the given config.
+function createApp(env: NodeJS.ProcessEnv) {
+  const config = loadConfig({ MCP_APPS_BASE_URL: 'https://sidecar.example.com', ...env });
+  const app = express();
+  app.set('trust proxy', config.trustedProxies);
+  app.use(requireAllowedHost(config.allowedHosts));
+  app.get('/healthz', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+  app.get('/whoami', (req, res) => {
+    res.json({ ip: req.ip, baseUrl: requestBaseUrl(req, config.baseUrl) });
+  });
+  const handleError: ErrorRequestHandler = (error, _req, res, next) => {
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+
+    res.status(error instanceof HttpError ? error.statusCode : 500).json({ error: (error as Error).message });
+  };
+  app.use(handleError);
+  return app;
+}
+
+async function listen(app: express.Express): Promise<{ port: number; close: () => Promise<void> }> {
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+// node:http, unlike fetch, lets the test pick the Host header.
+function get(port: number, path: string, headers: Record<string, string>): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const request = http.get({ host: '127.0.0.1', port, path, headers }, (response) => {
+      let data = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => (data += chunk));
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body: JSON.parse(data) as Reply['body'] }));
+    });
+    request.on('error', reject);
+  });
+}
+
+const spoofed = {
+  'X-Forwarded-For': '203.0.113.7',
+  'X-Forwarded-Proto': 'http',
+  'X-Forwarded-Host': 'evil.example',
+};
+
+describe('host validation', () => {
+  describe('without trusted proxies', () => {
+    let server: Awaited<ReturnType<typeof listen>>;
+    before(async () => {
+      server = await listen(createApp({ MCP_TRUSTED_PROXIES: '' }));
+    });
+    after(() => server.close());
+
+    it('ignores X-Forwarded-* headers from the peer', async () => {
+      const reply = await get(server.port, '/whoami', { Host: 'sidecar.example.com', ...spoofed });
+
+      assert.equal(reply.status, 200);
+      assert.equal(reply.body.ip, '127.0.0.1');
+      assert.equal(reply.body.baseUrl, 'http://sidecar.example.com');
+    });
+
+    it('rejects a Host outside the allowed hosts', async () => {
+      const reply = await get(server.port, '/whoami', { Host: 'rebound.example' });
+
+      assert.equal(reply.status, 403);
+      assert.equal(reply.body.error, 'Host not allowed: rebound.example');
+    });
+
+    it('answers health probes under any Host', async () => {
+      const reply = await get(server.port, '/healthz', { Host: '10.0.0.12:3232' });
+
+      assert.equal(reply.status, 200);
+    });
+  });
+
+  describe('behind a trusted loopback proxy', () => {
+    let server: Awaited<ReturnType<typeof listen>>;
+    before(async () => {
+      server = await listen(createApp({ MCP_TRUSTED_PROXIES: 'loopback' }));
+    });
+    after(() => server.close());
+
+    it('takes the client address, scheme and host from the proxy', async () => {
+      const reply = await get(server.port, '/whoami', {
+        Host: '127.0.0.1',
+        'X-Forwarded-For': '203.0.113.7',
+        'X-Forwarded-Proto': 'https',
+        'X-Forwarded-Host': 'sidecar.example.com',
+      });
+
+      assert.equal(reply.status, 200);
+      assert.equal(reply.body.ip, '203.0.113.7');
+      assert.equal(reply.body.baseUrl, 'https://sidecar.example.com');
+    });
+
+    it('still checks the forwarded host against the allowed hosts', async () => {
+      const reply = await get(server.port, '/whoami', { Host: 'sidecar.example.com', ...spoofed });
+
+      assert.equal(reply.status, 403);
+      assert.equal(reply.body.error, 'Host not allowed: evil.example');
+    });
+  });
+});
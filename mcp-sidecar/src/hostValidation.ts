@@ -0,0 +1,36 @@
+import type { Request, RequestHandler } from 'express';
+import { HttpError } from './httpError.js';
+
+// Orchestrators call these by IP every few seconds.
+export function isHealthProbe(req: Request): boolean {
+  return req.path === '/healthz' || req.path === '/readyz';
+}
+
+/**
+ * Rejects Host values the sidecar does not serve, so a page on a rebound DNS name cannot
+ * reach it through the browser. Health probes are exempt. The host is Express's `req.host`,
+ * which only follows X-Forwarded-Host when the app's `trust proxy` trusts the peer.
+ */
+export function requireAllowedHost(allowedHosts: ReadonlySet<string>): RequestHandler {
+  return (req, _res, next) => {
+    if (isHealthProbe(req)) {
+      next();
+      return;
+    }
+
+    const host = req.host?.toLowerCase();
+    if (!host || !(allowedHosts.has(host) || allowedHosts.has(req.hostname.toLowerCase()))) {
+      next(new HttpError(403, `Host not allowed: ${host ?? '(none)'}`));
+      return;
+    }
+
+    next();
+  };
+}
+
+/** The scheme and host the client reached, or `fallbackBaseUrl`'s host for requests without one. */
+export function requestBaseUrl(req: Request, fallbackBaseUrl: string): string {
+  // X-Forwarded-Proto/-Host only count from trusted proxies, and `requireAllowedHost` has
+  // already rejected anything outside the allowed hosts.
+  return `${req.protocol}://${req.host ?? new URL(fallbackBaseUrl).host}`;
+}
@@ -0,0 +1,13 @@
+/**
+ * Error with the HTTP status it should be answered with. The error middleware turns it
+ * into a JSON error (or a JSON-RPC error on `/mcp`); anything else becomes a 500.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
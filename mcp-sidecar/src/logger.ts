@@ -0,0 +1,79 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { redactSecrets } from './redact.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Correlation fields added to every line logged while handling one HTTP request. */
+export type LogContext = {
+  requestId?: string;
+  sessionId?: string;
+  user?: string;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const requestContext = new AsyncLocalStorage<LogContext>();
+
+/** Runs `run` with `context` attached to everything it logs, including after `await`s. */
+export function withLogContext<T>(context: LogContext, run: () => T): T {
+  return requestContext.run(context, run);
+}
+
+/** Adds fields to the current request's context once they are known (the session id after initialize, the user after auth). */
+export function setLogContext(fields: LogContext): void {
+  const context = requestContext.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
+
+function serializeError(error: unknown): unknown {
+  return error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error;
+}
+
+/**
+ * Writes one JSON object per line: `time`, `level`, `msg`, the request context and
+ * the given fields. Everything passes through `redactSecrets` first, so tokens,
+ * codes and cookies never reach the output. Warnings and errors go to stderr.
+ */
+export class Logger {
+  constructor(private readonly level: LogLevel = 'info') {}
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+      return;
+    }
+
+    const entry = redactSecrets({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...requestContext.getStore(),
+      ...fields,
+      ...('error' in fields ? { error: serializeError(fields.error) } : {}),
+    });
+
+    const line = `${JSON.stringify(entry)}\n`;
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER.warn) {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, help: string, type: string): string {
+  return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    const samples = [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}\n`);
+    return header(this.name, this.help, 'counter') + samples.join('');
+  }
+}
+
+/** A gauge read from `collect` at scrape time, for values the sidecar already tracks elsewhere. */
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => number,
+  ) {}
+
+  render(): string {
+    return `${header(this.name, this.help, 'gauge')}${this.name} ${this.collect()}\n`;
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[],
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index] += 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map(
+        (bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]);
+    return header(this.name, this.help, 'histogram') + lines.map((line) => `${line}\n`).join('');
+  }
+}
+
+/** Metrics in the Prometheus text exposition format (version 0.0.4). */
+export class MetricsRegistry {
+  static readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private readonly metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.map((metric) => metric.render()).join('');
+  }
+}
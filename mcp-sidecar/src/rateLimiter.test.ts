@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RateLimiter } from './rateLimiter.js';
+
+const START = Date.parse('2026-01-01T00:00:00Z');
+
+function drain(limiter: RateLimiter, key: string, now = START): void {
+  for (let i = 0; i < limiter.perMinute; i++) {
+    assert.equal(limiter.take(key, now), 0);
+  }
+}
+
+describe('RateLimiter', () => {
+  it('lets a burst of a minute worth of requests through, then refuses with the wait in seconds', () => {
+    const limiter = new RateLimiter(6);
+    drain(limiter, 'ip:1');
+
+    assert.equal(limiter.take('ip:1', START), 10);
+    assert.equal(limiter.take('ip:1', START + 4_000), 6);
+  });
+
+  it('refills continuously at the per-minute rate', () => {
+    const limiter = new RateLimiter(6);
+    drain(limiter, 'ip:1');
+
+    assert.equal(limiter.take('ip:1', START + 9_999), 1);
+    assert.equal(limiter.take('ip:1', START + 10_000), 0);
+    assert.equal(limiter.take('ip:1', START + 10_000), 10);
+    assert.equal(limiter.take('ip:1', START + 30_000), 0);
+    assert.equal(limiter.take('ip:1', START + 30_000), 0);
+    assert.equal(limiter.take('ip:1', START + 30_000), 10);
+  });
+
+  it('does not refill past a full bucket', () => {
+    const limiter = new RateLimiter(2);
+    assert.equal(limiter.take('ip:1', START), 0);
+
+    drain(limiter, 'ip:1', START + 60 * 60_000);
+    assert.equal(limiter.take('ip:1', START + 60 * 60_000), 30);
+  });
+
+  it('keeps a separate bucket per key', () => {
+    const limiter = new RateLimiter(1);
+    drain(limiter, 'user:octocat:deploy_project');
+
+    assert.equal(limiter.take('user:octocat:list_projects', START), 0);
+    assert.equal(limiter.take('user:hubot:deploy_project', START), 0);
+    assert.equal(limiter.take('user:octocat:deploy_project', START), 60);
+  });
+
+  it('allows everything with a limit of 0', () => {
+    const limiter = new RateLimiter(0);
+
+    for (let i = 0; i < 1000; i++) {
+      assert.equal(limiter.take('ip:1', START), 0);
+    }
+  });
+});
@@ -0,0 +1,56 @@
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+// Past this many buckets, full ones are dropped; a full bucket is the same as no bucket.
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * Token buckets keyed by caller (an IP, a sign-in, a sign-in and tool). A bucket
+ * holds `perMinute` requests and refills continuously at that rate, so bursts up to
+ * a minute's worth pass while a sustained loop gets throttled. A limit of 0 turns
+ * the limiter off.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(readonly perMinute: number) {}
+
+  /** Takes one request from `key`'s bucket. Returns 0 when it is allowed, else the seconds until it would be. */
+  take(key: string, now = Date.now()): number {
+    if (this.perMinute <= 0) {
+      return 0;
+    }
+
+    const bucket = this.refill(this.buckets.get(key), now);
+    if (bucket.tokens < 1) {
+      this.buckets.set(key, bucket);
+      return Math.ceil(((1 - bucket.tokens) * 60) / this.perMinute);
+    }
+
+    this.buckets.set(key, { tokens: bucket.tokens - 1, updatedAt: now });
+    if (this.buckets.size > PRUNE_THRESHOLD) {
+      this.prune(now);
+    }
+
+    return 0;
+  }
+
+  private refill(bucket: Bucket | undefined, now: number): Bucket {
+    if (!bucket) {
+      return { tokens: this.perMinute, updatedAt: now };
+    }
+
+    const refilled = ((now - bucket.updatedAt) / 60_000) * this.perMinute;
+    return { tokens: Math.min(this.perMinute, bucket.tokens + refilled), updatedAt: now };
+  }
+
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(bucket, now).tokens >= this.perMinute) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,29 @@
+const REDACTED = '[redacted]';
+
+// Object keys whose values are never written out, at any depth.
+const SENSITIVE_KEY = /token|secret|password|passphrase|credential|cookie|authorization|api[-_]?key|code_verifier|^code$/i;
+
+// Secrets that end up inside strings: query parameters of OAuth URLs and bearer headers.
+const SENSITIVE_QUERY_PARAM = /\b(code|access_token|refresh_token|id_token|client_secret|token)=[^&\s"']+/gi;
+const BEARER_CREDENTIAL = /\b(Bearer|Basic|token)\s+[A-Za-z0-9._~+/=-]{8,}/g;
+
+/** Copies `value` with credential-like fields and embedded tokens replaced by `[redacted]`. */
+export function redactSecrets(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value
+      .replace(SENSITIVE_QUERY_PARAM, (_match, name: string) => `${name}=${REDACTED}`)
+      .replace(BEARER_CREDENTIAL, (_match, scheme: string) => `${scheme} ${REDACTED}`);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, SENSITIVE_KEY.test(key) ? REDACTED : redactSecrets(entry)]),
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,464 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import crypto from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import net, { type AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { fileURLToPath } from 'node:url';
+
+type Sidecar = {
+  baseUrl: string;
+  output: () => string;
+  stop: () => Promise<number | null>;
+};
+
+const sidecarDir = fileURLToPath(new URL('..', import.meta.url));
+const dir = mkdtempSync(path.join(tmpdir(), 'server-test-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+async function freePort(): Promise<number> {
+  const server = net.createServer().listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+// Runs server.ts in its own process, with in-memory storage and the fake GitHub to sign in against.
+async function startSidecar(env: Record<string, string> = {}): Promise<Sidecar> {
+  const port = await freePort();
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/server.ts'], {
+    cwd: sidecarDir,
+    env: {
+      PATH: process.env.PATH,
+      HOME: process.env.HOME,
+      APP_ENV: 'testing',
+      MCP_APPS_HOST: '127.0.0.1',
+      MCP_APPS_PORT: String(port),
+      MCP_APPS_BASE_URL: baseUrl,
+      MCP_OAUTH_ENCRYPTION_KEY: 'server-test-key',
+      MCP_STORAGE_DRIVER: 'memory',
+      MCP_FAKE_OAUTH: 'true',
+      MCP_FAKE_OAUTH_USERS: 'octocat,hubot',
+      MCP_DEPLOY_STEP_MS: '0',
+      MCP_LOG_LEVEL: 'warn',
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  child.stdout.on('data', (chunk: Buffer) => (output += chunk.toString()));
+  child.stderr.on('data', (chunk: Buffer) => (output += chunk.toString()));
+  const exited = new Promise<number | null>((resolve) => child.once('exit', (code) => resolve(code)));
+
+  for (let attempt = 0; ; attempt++) {
+    const ready = await fetch(`${baseUrl}/healthz`).then(
+      (response) => response.ok,
+      () => false,
+    );
+    if (ready) {
+      break;
+    }
+    if (child.exitCode !== null || attempt >= 300) {
+      child.kill('SIGKILL');
+      throw new Error(`The sidecar did not start:\n${output}`);
+    }
+    await sleep(100);
+  }
+
+  return {
+    baseUrl,
+    output: () => output,
+    stop: async () => {
+      if (child.exitCode === null) {
+        child.kill('SIGTERM');
+      }
+      return exited;
+    },
+  };
+}
+
+/** A browser's cookie jar in front of fetch. Redirects are not followed, so each hop can be checked. */
+class Browser {
+  private readonly cookies = new Map<string, string>();
+
+  constructor(private readonly baseUrl: string) {}
+
+  cookie(name: string): string | undefined {
+    return this.cookies.get(name);
+  }
+
+  async request(url: string | URL, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.cookies.size > 0) {
+      headers.set('Cookie', [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; '));
+    }
+
+    const response = await fetch(new URL(url, this.baseUrl), { ...init, headers, redirect: 'manual' });
+    for (const header of response.headers.getSetCookie()) {
+      const [pair] = header.split(';');
+      const name = pair.slice(0, pair.indexOf('='));
+      const value = pair.slice(pair.indexOf('=') + 1);
+      if (value === '' || /expires=Thu, 01 Jan 1970/i.test(header)) {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, value);
+      }
+    }
+
+    return response;
+  }
+
+  /** Signs in at the fake GitHub as `login`, starting from `response`, a redirect to it. Returns the callback's response. */
+  async approveUpstream(response: Response, login: string): Promise<Response> {
+    assert.equal(response.status, 302);
+    const upstream = new URL(response.headers.get('location')!);
+    upstream.searchParams.set('login', login);
+
+    const callback = await this.request(upstream);
+    assert.equal(callback.status, 302);
+    return this.request(callback.headers.get('location')!);
+  }
+}
+
+const REDIRECT_URI = 'https://client.example/callback';
+const ADMIN_TOKEN = 'server-test-admin';
+const CODE_VERIFIER = 'verifier-0123456789-0123456789-0123456789-0123';
+
+async function registerClient(sidecar: Sidecar, clientName: string): Promise<string> {
+  const response = await fetch(`${sidecar.baseUrl}/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ redirect_uris: [REDIRECT_URI], client_name: clientName }),
+  });
+  assert.equal(response.status, 201);
+  return ((await response.json()) as { client_id: string }).client_id;
+}
+
+function authorizeUrl(clientId: string): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    code_challenge: crypto.createHash('sha256').update(CODE_VERIFIER).digest('base64url'),
+    code_challenge_method: 'S256',
+    state: 'client-state',
+  });
+  return `/oauth/authorize?${params.toString()}`;
+}
+
+function consentIdOf(html: string): string {
+  const match = /name="consent" value="([^"]+)"/.exec(html);
+  assert.ok(match, 'consent form');
+  return match[1];
+}
+
+function answerConsent(browser: Browser, consentId: string, decision: 'approve' | 'deny'): Promise<Response> {
+  return browser.request('/oauth/consent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ consent: consentId, decision }).toString(),
+  });
+}
+
+async function signIn(sidecar: Sidecar, login: string): Promise<Browser> {
+  const browser = new Browser(sidecar.baseUrl);
+  const callback = await browser.approveUpstream(await browser.request('/oauth/authorize'), login);
+  assert.equal(callback.status, 200);
+  assert.ok(browser.cookie('mcp_auth_token'));
+  return browser;
+}
+
+/** Sends one JSON-RPC message to `/mcp`, in the session `sessionId` unless it initializes one. */
+function mcpRequest(browser: Browser, method: string, sessionId?: string, params: Record<string, unknown> = {}): Promise<Response> {
+  return browser.request('/mcp', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  });
+}
+
+const INITIALIZE_PARAMS = { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'server-test', version: '1.0.0' } };
+
+async function startMcpSession(browser: Browser): Promise<string> {
+  const response = await mcpRequest(browser, 'initialize', undefined, INITIALIZE_PARAMS);
+  assert.equal(response.status, 200);
+  await response.text();
+  const sessionId = response.headers.get('mcp-session-id');
+  assert.ok(sessionId);
+  return sessionId;
+}
+
+describe('sidecar server', () => {
+  let sidecar: Sidecar;
+  before(async () => {
+    sidecar = await startSidecar({ MCP_ADMIN_TOKEN: ADMIN_TOKEN });
+  });
+  after(async () => {
+    await sidecar.stop();
+  });
+
+  describe('health', () => {
+    it('reports ready while storage and the event store can be used', async () => {
+      const response = await fetch(`${sidecar.baseUrl}/readyz`);
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { status: 'ready', checks: { storage: 'ok', eventStore: 'ok' } });
+    });
+
+    it('reports unavailable, naming the failing check, when the event store cannot be written', async () => {
+      const file = path.join(dir, 'not-a-directory');
+      writeFileSync(file, '');
+      const broken = await startSidecar({ MCP_EVENT_STORE_DRIVER: 'file', MCP_EVENT_STORE_DIR: path.join(file, 'events') });
+      try {
+        const response = await fetch(`${broken.baseUrl}/readyz`);
+        const body = (await response.json()) as { status: string; checks: Record<string, string> };
+
+        assert.equal(response.status, 503);
+        assert.equal(body.status, 'unavailable');
+        assert.equal(body.checks.storage, 'ok');
+        assert.match(body.checks.eventStore, /ENOTDIR/);
+      } finally {
+        await broken.stop();
+      }
+    });
+  });
+
+  describe('errors', () => {
+    it('answers a body that does not parse on /mcp with a JSON-RPC parse error', async () => {
+      const response = await fetch(`${sidecar.baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'req-parse' },
+        body: '{"jsonrpc": "2.0",',
+      });
+
+      assert.equal(response.status, 400);
+      assert.equal(response.headers.get('x-request-id'), 'req-parse');
+      const body = (await response.json()) as { jsonrpc: string; id: null; error: { code: number; data: { requestId: string } } };
+      assert.equal(body.jsonrpc, '2.0');
+      assert.equal(body.id, null);
+      assert.equal(body.error.code, -32700);
+      assert.deepEqual(body.error.data, { requestId: 'req-parse' });
+    });
+
+    it('answers errors elsewhere with the message and the request id', async () => {
+      const response = await fetch(`${sidecar.baseUrl}/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_name: 'x'.repeat(3 * 1024 * 1024) }),
+      });
+
+      assert.equal(response.status, 413);
+      assert.deepEqual(await response.json(), { error: 'request entity too large', requestId: response.headers.get('x-request-id') });
+    });
+  });
+
+  describe('metadata', () => {
+    it('advertises the configured base URL as the issuer its tokens carry', async () => {
+      const authorizationServer = (await (await fetch(`${sidecar.baseUrl}/.well-known/oauth-authorization-server`)).json()) as {
+        issuer: string;
+        token_endpoint: string;
+      };
+      const resource = (await (await fetch(`${sidecar.baseUrl}/.well-known/oauth-protected-resource/mcp`)).json()) as {
+        authorization_servers: string[];
+      };
+
+      assert.equal(authorizationServer.issuer, sidecar.baseUrl);
+      assert.equal(authorizationServer.token_endpoint, `${sidecar.baseUrl}/oauth/token`);
+      assert.deepEqual(resource.authorization_servers, [sidecar.baseUrl]);
+    });
+  });
+
+  describe('client authorization', () => {
+    it('asks for consent naming the client and its redirect host, then remembers the approval', async () => {
+      const clientId = await registerClient(sidecar, 'Notes <Sync>');
+      const browser = new Browser(sidecar.baseUrl);
+
+      const consentPage = await browser.approveUpstream(await browser.request(authorizeUrl(clientId)), 'octocat');
+      assert.equal(consentPage.status, 200);
+      assert.equal(consentPage.headers.get('x-frame-options'), 'DENY');
+      const html = await consentPage.text();
+      assert.match(html, /Authorize Notes &lt;Sync&gt;/);
+      assert.match(html, /client\.example/);
+      assert.match(html, /octocat/);
+
+      const approved = await answerConsent(browser, consentIdOf(html), 'approve');
+      assert.equal(approved.status, 302);
+      const redirect = new URL(approved.headers.get('location')!);
+      assert.equal(`${redirect.origin}${redirect.pathname}`, REDIRECT_URI);
+      assert.equal(redirect.searchParams.get('state'), 'client-state');
+
+      const token = await fetch(`${sidecar.baseUrl}/oauth/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          client_id: clientId,
+          code: redirect.searchParams.get('code')!,
+          redirect_uri: REDIRECT_URI,
+          code_verifier: CODE_VERIFIER,
+        }).toString(),
+      });
+      assert.equal(token.status, 200);
+      const { access_token: accessToken } = (await token.json()) as { access_token: string };
+      const claims = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString('utf8')) as { iss: string };
+      assert.equal(claims.iss, sidecar.baseUrl);
+
+      const again = await browser.approveUpstream(await browser.request(authorizeUrl(clientId)), 'octocat');
+      assert.equal(again.status, 302);
+      assert.ok(new URL(again.headers.get('location')!).searchParams.get('code'));
+
+      const otherUser = await browser.approveUpstream(await browser.request(authorizeUrl(clientId)), 'hubot');
+      assert.equal(otherUser.status, 200);
+      assert.match(await otherUser.text(), /name="consent"/);
+    });
+
+    it('reports a denial to the client without issuing a code', async () => {
+      const clientId = await registerClient(sidecar, 'Denied');
+      const browser = new Browser(sidecar.baseUrl);
+      const consentPage = await browser.approveUpstream(await browser.request(authorizeUrl(clientId)), 'octocat');
+
+      const denied = await answerConsent(browser, consentIdOf(await consentPage.text()), 'deny');
+
+      const redirect = new URL(denied.headers.get('location')!);
+      assert.equal(redirect.searchParams.get('error'), 'access_denied');
+      assert.equal(redirect.searchParams.get('code'), null);
+    });
+
+    it('does not finish an authorization in a browser that did not start it', async () => {
+      const clientId = await registerClient(sidecar, 'Phisher');
+      const attacker = new Browser(sidecar.baseUrl);
+      const started = await attacker.request(authorizeUrl(clientId));
+      assert.ok(attacker.cookie('mcp_oauth_authorization'));
+
+      const victim = new Browser(sidecar.baseUrl);
+      const callback = await victim.approveUpstream(started, 'octocat');
+
+      assert.equal(callback.status, 400);
+    });
+
+    it('only takes the consent answer from the browser that started the authorization', async () => {
+      const clientId = await registerClient(sidecar, 'Forged');
+      const browser = new Browser(sidecar.baseUrl);
+      const consentPage = await browser.approveUpstream(await browser.request(authorizeUrl(clientId)), 'octocat');
+      const consentId = consentIdOf(await consentPage.text());
+
+      const forged = await answerConsent(new Browser(sidecar.baseUrl), consentId, 'approve');
+      assert.equal(forged.status, 400);
+
+      const late = await answerConsent(browser, consentId, 'approve');
+      assert.equal(late.status, 400);
+    });
+  });
+
+  describe('MCP sessions', () => {
+    it("answers another user's session id as if the session did not exist", async () => {
+      const owner = await signIn(sidecar, 'octocat');
+      const other = await signIn(sidecar, 'hubot');
+      const sessionId = await startMcpSession(owner);
+
+      assert.equal((await mcpRequest(other, 'tools/list', sessionId)).status, 404);
+      assert.equal((await other.request('/mcp', { headers: { 'Mcp-Session-Id': sessionId } })).status, 404);
+      assert.equal((await other.request('/mcp', { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } })).status, 404);
+
+      const own = await mcpRequest(owner, 'tools/list', sessionId);
+      assert.equal(own.status, 200);
+      assert.match(await own.text(), /"tools"/);
+    });
+
+    it('audits each tool call as the user who sent it', async () => {
+      const browser = await signIn(sidecar, 'hubot');
+      const sessionId = await startMcpSession(browser);
+
+      const call = await mcpRequest(browser, 'tools/call', sessionId, { name: 'list_projects', arguments: {} });
+      assert.equal(call.status, 200);
+      await call.text();
+
+      const audit = await fetch(`${sidecar.baseUrl}/admin/audit?tool=list_projects`, { headers: { Authorization: `Bearer ${ADMIN_TOKEN}` } });
+      const { records } = (await audit.json()) as { records: { sessionId: string; user: { provider: string; login: string } }[] };
+      const record = records.find((candidate) => candidate.sessionId === sessionId);
+      assert.ok(record);
+      assert.deepEqual({ provider: record.user.provider, login: record.user.login }, { provider: 'github', login: 'hubot' });
+    });
+  });
+});
+
+describe('sidecar server with a tool policy', () => {
+  let sidecar: Sidecar;
+  before(async () => {
+    const policyPath = path.join(dir, 'tool-policy.json');
+    writeFileSync(
+      policyPath,
+      JSON.stringify({ roles: { maintainer: { users: ['octocat'] } }, tools: { delete_project: [{ roles: ['maintainer'] }] } }),
+    );
+    sidecar = await startSidecar({ MCP_TOOL_POLICY_PATH: policyPath });
+  });
+  after(async () => {
+    await sidecar.stop();
+  });
+
+  async function toolNames(browser: Browser, sessionId: string): Promise<string[]> {
+    const response = await mcpRequest(browser, 'tools/list', sessionId);
+    assert.equal(response.status, 200);
+    const [, data] = /^data: (.*)$/m.exec(await response.text())!;
+    return (JSON.parse(data) as { result: { tools: { name: string }[] } }).result.tools.map((tool) => tool.name);
+  }
+
+  it("does not let a user borrow another user's roles through their session id", async () => {
+    const maintainer = await signIn(sidecar, 'octocat');
+    const other = await signIn(sidecar, 'hubot');
+    const maintainerSession = await startMcpSession(maintainer);
+    const otherSession = await startMcpSession(other);
+
+    assert.ok((await toolNames(maintainer, maintainerSession)).includes('delete_project'));
+    assert.ok(!(await toolNames(other, otherSession)).includes('delete_project'));
+
+    const borrowed = await mcpRequest(other, 'tools/call', maintainerSession, { name: 'delete_project', arguments: { project_id: 'p1' } });
+    assert.equal(borrowed.status, 404);
+
+    const own = await mcpRequest(other, 'tools/call', otherSession, { name: 'delete_project', arguments: { project_id: 'p1' } });
+    assert.match(await own.text(), /Permission denied: delete_project requires the maintainer role/);
+  });
+});
+
+describe('sidecar shutdown', () => {
+  let sidecar: Sidecar;
+  before(async () => {
+    sidecar = await startSidecar({ MCP_DEPLOY_STEP_MS: '300' });
+  });
+  after(async () => {
+    await sidecar.stop();
+  });
+
+  it('turns away new work but lets a running tool call finish before exiting', async () => {
+    const browser = await signIn(sidecar, 'octocat');
+    const sessionId = await startMcpSession(browser);
+    const created = await mcpRequest(browser, 'tools/call', sessionId, { name: 'create_project', arguments: { name: 'Drain', template: 'static' } });
+    const [projectId] = /proj_[0-9a-f]+/.exec(await created.text())!;
+
+    const deploy = await mcpRequest(browser, 'tools/call', sessionId, { name: 'deploy_project', arguments: { project_id: projectId } });
+    assert.equal(deploy.status, 200);
+    const exited = sidecar.stop();
+
+    // The signal reaches the sidecar on its own schedule; readiness is the first thing to flip.
+    let ready = await fetch(`${sidecar.baseUrl}/readyz`);
+    for (let attempt = 0; ready.status === 200 && attempt < 50; attempt++) {
+      await sleep(20);
+      ready = await fetch(`${sidecar.baseUrl}/readyz`);
+    }
+    assert.equal(ready.status, 503);
+    assert.equal(((await ready.json()) as { status: string }).status, 'shutting_down');
+    assert.equal((await mcpRequest(browser, 'initialize', undefined, INITIALIZE_PARAMS)).status, 503);
+
+    assert.match(await deploy.text(), new RegExp(`Deployment dep_\\w+ of ${projectId} to staging is live`));
+    assert.equal(await exited, 0);
+  });
+});
@@ -1,29 +1,101 @@
 import cookieParser from 'cookie-parser';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import express, { type Request, type Response } from 'express';
-import { randomUUID } from 'node:crypto';
+import express, { type ErrorRequestHandler, type Request, type RequestHandler, type Response } from 'express';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
 import { createUIResource, RESOURCE_URI_META_KEY } from '@mcp-ui/server';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  ErrorCode,
+  type ElicitRequestFormParams,
+  type ElicitResult,
+  type ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import {
-  buildGitHubAuthorizeUrl,
-  exchangeGitHubCode,
-  fetchGitHubUser,
-  generateOAuthState,
-} from './auth/githubOAuth.js';
+  AuthorizationServer,
+  OAuthError,
+  SUPPORTED_SCOPES,
+  type AuthorizationRequest,
+  type OAuthClientRecord,
+} from './auth/authorizationServer.js';
+import { createFakeGitHub } from './auth/fakeGitHub.js';
+import { fetchGitHubMemberships, generateOAuthState, GitHubIdentityProvider } from './auth/githubOAuth.js';
+import { providerIdOf, type IdentityProvider, type UpstreamLogin } from './auth/identityProvider.js';
+import { OidcIdentityProvider } from './auth/oidcProvider.js';
+import { SigningKeys } from './auth/signingKeys.js';
+import { TokenCipher } from './auth/tokenCipher.js';
+import { TokenRefresher } from './auth/tokenRefresher.js';
+import { ToolAccess, ToolPolicy } from './auth/toolPolicy.js';
 import { loadConfig } from './config.js';
+import { DeploymentEngine, type DeploymentRecord } from './deploymentEngine.js';
+import { isHealthProbe, requestBaseUrl, requireAllowedHost } from './hostValidation.js';
+import { escapeHtml } from './html.js';
+import { HttpError } from './httpError.js';
+import { Logger, setLogContext, withLogContext } from './logger.js';
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics.js';
+import { RateLimiter } from './rateLimiter.js';
+import { isSessionExpired, startSessionReaper, type SessionExpiryPolicy } from './sessionReaper.js';
+import { SessionTools, type ToolCallReport, type ToolExtra } from './sessionTools.js';
+import { AuditLog, type AuditRecord, type ToolCallOrigin } from './store/auditLog.js';
+import { checkEventStore, createSessionEventStore, type SessionEventStore } from './store/eventStore.js';
+import {
+  orgNamespace,
+  ProjectStore,
+  userNamespace,
+  type ProjectChange,
+  type ProjectRecord,
+  type ProjectScope,
+} from './store/projectStore.js';
 import { SessionStore } from './store/sessionStore.js';
-import { TokenStore } from './store/tokenStore.js';
+import { createStorageBackend } from './store/storage.js';
+import { TokenStore, type OAuthTokenRecord } from './store/tokenStore.js';
 
 dotenv.config({ path: '../.env' });
 
 const config = loadConfig(process.env);
+const logger = new Logger(config.logLevel);
 const app = express();
+// Only these hops may set X-Forwarded-For/-Proto/-Host; this drives `req.ip`,
+// `req.protocol` and `req.host`, and so the rate limit keys and advertised URLs.
+app.set('trust proxy', config.trustedProxies);
+
+// Every request gets an id (a caller's `X-Request-Id` is kept) that is echoed back and
+// attached to every line logged while handling it, together with the MCP session id.
+app.use((req, res, next) => {
+  const incoming = req.header('x-request-id');
+  const requestId = incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+  const context = { requestId, sessionId: getSessionId(req) };
+  const startedAt = Date.now();
+
+  res.set('X-Request-Id', requestId);
+  // Health probes arrive every few seconds, so they are only logged at debug level.
+  const probe = isHealthProbe(req);
+  res.on('finish', () => {
+    withLogContext(context, () =>
+      logger[res.statusCode >= 500 ? 'error' : probe ? 'debug' : 'info']('http request', {
+        method: req.method,
+        // The query string is left out; it can carry OAuth codes and state.
+        path: req.originalUrl.split('?')[0],
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      }),
+    );
+  });
+
+  withLogContext(context, next);
+});
+
+app.use(requireAllowedHost(config.allowedHosts));
 
 app.use(express.json({ limit: '2mb' }));
-app.use(cookieParser());
+app.use(express.urlencoded({ extended: false }));
+// The secret signs the cookie that ties a client authorization to the browser that started it.
+app.use(cookieParser(createHash('sha256').update(`cookie:${config.oauthEncryptionKey}`).digest('hex')));
+
 app.use(
   cors({
     origin(origin, callback) {
@@ -32,7 +104,7 @@ app.use(
         return;
       }
 
-      callback(new Error(`Origin not allowed: ${origin}`));
+      callback(new HttpError(403, `Origin not allowed: ${origin}`));
     },
     credentials: true,
     methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
@@ -47,74 +119,209 @@ app.use(
       'last-event-id',
       'Accept',
     ],
-    exposedHeaders: ['Mcp-Session-Id', 'mcp-session-id', 'Mcp-Protocol-Version', 'mcp-protocol-version'],
+    exposedHeaders: [
+      'Mcp-Session-Id',
+      'mcp-session-id',
+      'Mcp-Protocol-Version',
+      'mcp-protocol-version',
+      'WWW-Authenticate',
+      'X-Request-Id',
+    ],
   }),
 );
 
-const sessionStore = new SessionStore();
-const tokenStore = new TokenStore();
+const storage = createStorageBackend(config);
+const sessionStore = new SessionStore(storage);
+const projectStore = new ProjectStore(storage);
+const deploymentEngine = new DeploymentEngine(storage, projectStore, {
+  stepMs: config.deployStepMs,
+  failureRate: config.deployFailureRate,
+});
+const tokenCipher = new TokenCipher(config.oauthEncryptionKey, config.oauthPreviousEncryptionKeys);
+const tokenStore = new TokenStore(storage, tokenCipher);
+const auditLog = new AuditLog(storage, { retentionMs: config.auditRetentionMs });
+
+const keyRotation = tokenStore.rotateKeys();
+if (keyRotation.rotated > 0 || keyRotation.unreadable > 0) {
+  logger.info('re-encrypted stored tokens', { rotated: keyRotation.rotated, unreadable: keyRotation.unreadable });
+}
+
+const signingKeys = new SigningKeys(storage, tokenCipher, {
+  rotationMs: config.oauthSigningKeyRotationMs,
+  retentionMs: config.oauthAccessTokenTtlMs,
+});
+
+const authorizationServer = new AuthorizationServer(storage, signingKeys, {
+  issuer: config.baseUrl,
+  accessTokenTtlMs: config.oauthAccessTokenTtlMs,
+  refreshTokenTtlMs: config.oauthRefreshTokenTtlMs,
+  maxClients: config.oauthMaxClients,
+  redirectSchemes: config.oauthRedirectSchemes,
+});
+
+const toolPolicy = config.toolPolicyPath ? ToolPolicy.load(config.toolPolicyPath) : undefined;
+const githubUrls = { webUrl: config.githubWebUrl, apiUrl: config.githubApiUrl };
+// Org and team rules and shared org projects need to read the user's GitHub memberships.
+const needsGitHubMemberships = Boolean(toolPolicy?.usesGitHubMemberships()) || config.sharedProjectOrgs.length > 0;
+
+// Keyed by provider id, which is also the last segment of the provider's callback URL.
+const identityProviders = new Map<string, IdentityProvider>();
+if (config.githubClientId && config.githubClientSecret) {
+  identityProviders.set(
+    'github',
+    new GitHubIdentityProvider(
+      { clientId: config.githubClientId, clientSecret: config.githubClientSecret, urls: githubUrls },
+      needsGitHubMemberships ? 'read:user user:email read:org' : undefined,
+    ),
+  );
+}
+for (const oidcProvider of config.oidcProviders) {
+  identityProviders.set(oidcProvider.id, new OidcIdentityProvider(oidcProvider));
+}
+
+const tokenRefresher = new TokenRefresher(tokenStore, identityProviders, {
+  refreshSkewMs: config.oauthRefreshSkewMs,
+  logger,
+});
+
+// Per IP for the OAuth routes and `/mcp`, per sign-in for MCP requests, and per
+// sign-in and tool for `tools/call`.
+const oauthRateLimiter = new RateLimiter(config.rateLimitOAuthPerMinute);
+const mcpRateLimiter = new RateLimiter(config.rateLimitMcpPerMinute);
+const tokenRateLimiter = new RateLimiter(config.rateLimitTokenPerMinute);
+const defaultToolRateLimiter = new RateLimiter(config.rateLimitToolPerMinute);
+const toolRateLimiters = new Map(
+  Object.entries(config.rateLimitTools).map(([tool, perMinute]) => [tool, new RateLimiter(perMinute)]),
+);
 
 type ServerSession = {
   transport: StreamableHTTPServerTransport;
   server: McpServer;
+  eventStore: SessionEventStore;
+  // The sign-in that initialized the session; signing out closes it.
+  tokenId: string;
+  projects: ProjectScope;
+  // Open standalone GET streams. A session with one is connected even while it sends nothing.
+  openStreams: number;
+};
+
+type SessionIdentity = {
+  access: ToolAccess;
+  projects: ProjectScope;
 };
 
 const mcpSessions = new Map<string, ServerSession>();
 
-const mockProjects = [
-  {
-    id: 'proj_a1b2c3d4',
-    name: 'My API',
-    template: 'api-only',
-    status: 'active',
-    environment: 'production',
-    url: 'https://proj_a1b2c3d4.production.example.cloud',
-    created_at: '2026-01-15T10:30:00Z',
-  },
-  {
-    id: 'proj_e5f6g7h8',
-    name: 'Frontend App',
-    template: 'fullstack',
-    status: 'deploying',
-    environment: 'staging',
-    url: 'https://proj_e5f6g7h8.staging.example.cloud',
-    created_at: '2026-02-01T14:20:00Z',
-  },
-  {
-    id: 'proj_i9j0k1l2',
-    name: 'Auth Microservice',
-    template: 'microservice',
-    status: 'active',
-    environment: 'production',
-    url: 'https://proj_i9j0k1l2.production.example.cloud',
-    created_at: '2026-02-10T09:15:00Z',
-  },
-];
+// Set on SIGTERM/SIGINT: readiness fails and no new sessions or tool calls are accepted.
+let shuttingDown = false;
 
-function getRequestBaseUrl(req: Request): string {
-  const forwardedProto = req.header('x-forwarded-proto');
-  const forwardedHost = req.header('x-forwarded-host');
+// `POST /mcp` requests carrying a tool call, settled once their response has been sent
+// or the client went away. Shutdown waits for them.
+const inFlightToolCalls = new Set<Promise<void>>();
+
+function trackToolCallRequest(res: Response): void {
+  const done = new Promise<void>((resolve) => res.on('close', resolve));
+  inFlightToolCalls.add(done);
+  void done.then(() => inFlightToolCalls.delete(done));
+}
+
+const metrics = new MetricsRegistry();
+metrics.register(new Gauge('mcp_sidecar_sessions_active', 'Open MCP sessions.', () => mcpSessions.size));
+metrics.register(new Gauge('mcp_sidecar_oauth_tokens_stored', 'Stored provider tokens, one per sign-in.', () => tokenStore.count()));
+const signInsTotal = metrics.register(
+  new Counter('mcp_sidecar_oauth_signins_total', 'Identity provider sign-ins by provider and outcome.'),
+);
+const tokenRequestsTotal = metrics.register(
+  new Counter('mcp_sidecar_oauth_token_requests_total', 'Token endpoint requests by grant type and outcome.'),
+);
+const toolCallsTotal = metrics.register(
+  new Counter('mcp_sidecar_tool_calls_total', 'Tool calls by tool and outcome (ok, error or denied).'),
+);
+const toolCallDuration = metrics.register(
+  new Histogram('mcp_sidecar_tool_call_duration_seconds', 'Tool call latency by tool.', [
+    0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+  ]),
+);
+
+const sessionExpiryPolicy: SessionExpiryPolicy = {
+  idleTtlMs: config.sessionIdleTtlMs,
+  maxLifetimeMs: config.sessionMaxLifetimeMs,
+};
+
+const PROJECT_CHANGED_NOTIFICATION = 'notifications/projects/changed';
+
+// Notifications that are not tied to a request go out on each session's standalone
+// GET stream. Sessions without an open stream simply miss them.
+async function broadcastToSessions(send: (session: ServerSession) => Promise<void> | void): Promise<void> {
+  await Promise.allSettled([...mcpSessions.values()].map(async (session) => send(session)));
+}
+
+projectStore.subscribe((change: ProjectChange) => {
+  void broadcastToSessions(async ({ server, projects }) => {
+    // Sessions only hear about projects they can see.
+    if (!projects.includes(change.project)) {
+      return;
+    }
+
+    await server.server.notification({
+      method: PROJECT_CHANGED_NOTIFICATION,
+      params: { ...change },
+    } as unknown as ServerNotification);
+
+    // Creating or deleting a project changes the project resource list. Tool lists are
+    // re-announced too so open clients refresh everything they derived from them.
+    if (change.type !== 'updated') {
+      server.sendResourceListChanged();
+      server.sendToolListChanged();
+    }
+  });
+});
 
-  const protocol =
-    (forwardedProto ? forwardedProto.split(',')[0].trim() : req.protocol) || 'http';
-  const host =
-    (forwardedHost ? forwardedHost.split(',')[0].trim() : req.get('host')) ||
-    new URL(config.baseUrl).host;
+function getRequestBaseUrl(req: Request): string {
+  return requestBaseUrl(req, config.baseUrl);
+}
 
-  return `${protocol}://${host}`;
+// The canonical URL of the MCP endpoint: the RFC 9728 resource and the `aud` of every access token for it.
+function getResourceUrl(req: Request): string {
+  return `${getRequestBaseUrl(req)}/mcp`;
 }
 
 function getToolUiUri(toolName: string): `ui://${string}` {
   return `ui://mcp-demo/apps/${toolName}`;
 }
 
-function createToolHtml(toolName: string): string {
+// The app's form for a tool that acts on one of `projects`, or a hint when there is none to pick.
+function projectForm(projects: ProjectRecord[], fields: string, submitLabel: string): string {
+  if (projects.length === 0) {
+    return '<p>No projects yet. Create one first.</p>';
+  }
+
+  const options = projects
+    .map((project) => `<option value="${escapeHtml(project.id)}">${escapeHtml(project.name)} (${escapeHtml(project.id)})</option>`)
+    .join('');
+  return `<form id="tool-form">
+        <select name="project_id">${options}</select>
+        ${fields}
+        <button type="submit">${submitLabel}</button>
+      </form>`;
+}
+
+// Project-bound forms and buttons are rendered from the user's own projects, so the app
+// never offers an id from someone else's namespace.
+function createToolHtml(toolName: string, projects: ProjectRecord[]): string {
+  const deployButtons = projects
+    .map(
+      (project) =>
+        `<button type="button" data-action="deploy" data-project-id="${escapeHtml(project.id)}">Deploy ${escapeHtml(project.name)}</button>`,
+    )
+    .join('');
+
   const contentByTool: Record<string, string> = {
     list_projects: `
       <p>This MCP App can trigger other MCP tools directly.</p>
       <button type="button" data-action="refresh">Refresh Projects</button>
       <button type="button" data-action="create-demo">Create Demo Project</button>
-      <button type="button" data-action="deploy-first">Deploy First Project</button>
+      ${deployButtons}
     `,
     create_project: `
       <p>Create a project from inside the AppRenderer iframe.</p>
@@ -132,25 +339,25 @@ function createToolHtml(toolName: string): string {
     `,
     deploy_project: `
       <p>Deploy and chain actions from AppRenderer.</p>
-      <form id="tool-form">
-        <input name="project_id" placeholder="Project ID" value="proj_a1b2c3d4" />
-        <select name="environment">
+      ${projectForm(
+        projects,
+        `<select name="environment">
           <option value="staging" selected>staging</option>
           <option value="production">production</option>
           <option value="development">development</option>
-        </select>
-        <button type="submit">Deploy Project</button>
-      </form>
+        </select>`,
+        'Deploy Project',
+      )}
       <button type="button" data-action="search">Open deployment docs</button>
     `,
     security_review: `
       <p>Run security review and continue to escalation.</p>
-      <button type="button" data-action="run-review">Run Review</button>
+      ${projectForm(projects, '<input type="hidden" name="risk_level" value="medium" />', 'Run Review')}
       <button type="button" data-action="escalate">Create Escalation Plan</button>
     `,
     connect_repository: `
       <p>Simulate repo connection and open docs.</p>
-      <button type="button" data-action="connect">Connect Repository</button>
+      ${projectForm(projects, '<input type="hidden" name="provider" value="github" />', 'Connect Repository')}
       <button type="button" data-action="open-link">Open GitHub</button>
     `,
     incident_escalation: `
@@ -178,7 +385,7 @@ function createToolHtml(toolName: string): string {
   </head>
   <body>
     <div class="card">
-      <h2>${toolName}</h2>
+      <h2>${escapeHtml(toolName)}</h2>
       <p>This is interactive MCP Apps UI rendered by AppRenderer.</p>
       ${body}
     </div>
@@ -214,7 +421,7 @@ function createToolHtml(toolName: string): string {
           event.preventDefault();
           const formData = new FormData(form);
           const values = Object.fromEntries(formData.entries());
-          callTool('${toolName}', values);
+          callTool(${JSON.stringify(toolName)}, values);
         });
       }
 
@@ -226,12 +433,10 @@ function createToolHtml(toolName: string): string {
 
         if (action === 'refresh') callTool('list_projects', {});
         if (action === 'create-demo') callTool('create_project', { name: 'From AppRenderer', template: 'fullstack' });
-        if (action === 'deploy-first') callTool('deploy_project', { project_id: 'proj_a1b2c3d4', environment: 'staging' });
+        if (action === 'deploy') callTool('deploy_project', { project_id: target.dataset.projectId, environment: 'staging' });
         if (action === 'list') callTool('list_projects', {});
         if (action === 'search') openLink('https://docs.github.com/en/actions/deployment');
-        if (action === 'run-review') callTool('security_review', { project_id: 'proj_a1b2c3d4', risk_level: 'medium' });
         if (action === 'escalate') callTool('incident_escalation', { service: 'api-gateway', severity: 'sev-2' });
-        if (action === 'connect') callTool('connect_repository', { project_id: 'proj_e5f6g7h8', provider: 'github' });
         if (action === 'open-link') openLink('https://github.com/settings/connections/applications');
         if (action === 'run-escalation') callTool('incident_escalation', { service: 'api-gateway', severity: 'sev-2' });
         if (action === 'notify') notify('Escalation run was triggered from AppRenderer.');
@@ -274,7 +479,7 @@ function createUIResourceHtml(
               params: action.params ?? {},
             },
           });
-          return `<button onclick='window.parent.postMessage(${payload}, \"*\")' style="border:0;border-radius:8px;background:#111827;color:#fff;padding:8px 10px;cursor:pointer;">${action.label}</button>`;
+          return `<button onclick="window.parent.postMessage(${escapeHtml(payload)}, '*')" style="border:0;border-radius:8px;background:#111827;color:#fff;padding:8px 10px;cursor:pointer;">${escapeHtml(action.label)}</button>`;
         })
         .join('')}
       <button onclick="window.parent.postMessage({ type: 'notify', payload: { message: 'UIResource sent a host notification.' } }, '*')" style="border:0;border-radius:8px;background:#4b5563;color:#fff;padding:8px 10px;cursor:pointer;">Notify Host</button>
@@ -288,8 +493,8 @@ function createUIResourceHtml(
       type: 'rawHtml',
       htmlString: `
       <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; padding: 12px; border: 1px solid #e5e7eb; border-radius: 10px;">
-        <h3 style="margin:0 0 8px 0;">${heading}</h3>
-        <p style="margin:0;">${body}</p>
+        <h3 style="margin:0 0 8px 0;">${escapeHtml(heading)}</h3>
+        <p style="margin:0;">${escapeHtml(body)}</p>
         ${actionButtons}
       </div>
       `,
@@ -330,9 +535,17 @@ function inferChatIntent(message: string): ChatIntent {
   return 'unknown';
 }
 
-function extractProjectId(message: string, fallback = 'proj_a1b2c3d4'): string {
-  const match = message.match(/proj_[a-z0-9]+/i);
-  return match?.[0] ?? fallback;
+function findProjectId(message: string): string | undefined {
+  return message.match(/proj_[a-z0-9]+/i)?.[0];
+}
+
+// Commands that act on a project need its id; guessing one could deploy the wrong project.
+function requireProjectId(message: string): string {
+  const projectId = findProjectId(message);
+  if (!projectId) {
+    throw new Error('Say which project to use by its id, e.g. "deploy proj_0123456789abcdef". "list projects" shows the ids.');
+  }
+  return projectId;
 }
 
 function extractEnvironment(message: string): 'staging' | 'production' | 'development' {
@@ -358,11 +571,169 @@ function extractProjectName(message: string): string {
   return 'MCP UI Demo Project';
 }
 
-function buildMcpServer(): McpServer {
+// Forwards deployment stages as MCP progress notifications when the caller asked for them.
+function reportDeploymentProgress(extra: ToolExtra): (deployment: DeploymentRecord) => Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+
+  return async (deployment) => {
+    if (progressToken === undefined) {
+      return;
+    }
+
+    await extra.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: deployment.progress,
+        total: 100,
+        message: `${deployment.status}: ${deployment.message}`,
+      },
+    });
+  };
+}
+
+const riskLevels = ['low', 'medium', 'high', 'critical'] as const;
+type RiskLevel = (typeof riskLevels)[number];
+
+// Elicitation requests are sent with the tool call as related request so they travel on
+// that call's SSE stream. Returns undefined when the client cannot answer them. When the
+// session closes (expiry, sign-out, shutdown) or the client cancels the tool call,
+// `extra.signal` aborts and the open form counts as cancelled, so the call still finishes.
+async function elicit(server: McpServer, extra: ToolExtra, params: ElicitRequestFormParams): Promise<ElicitResult | undefined> {
+  if (!server.server.getClientCapabilities()?.elicitation?.form) {
+    return undefined;
+  }
+
+  const cancelled = new Promise<ElicitResult>((resolve) => {
+    if (extra.signal.aborted) {
+      resolve({ action: 'cancel' });
+      return;
+    }
+    extra.signal.addEventListener('abort', () => resolve({ action: 'cancel' }), { once: true });
+  });
+
+  return Promise.race([server.server.elicitInput(params, { relatedRequestId: extra.requestId }), cancelled]);
+}
+
+function describeRefusal(result: ElicitResult): string {
+  if (result.action === 'decline') return 'declined';
+  if (result.action === 'cancel') return 'cancelled';
+  return 'not confirmed';
+}
+
+async function confirmProductionDeploy(server: McpServer, extra: ToolExtra, projectId: string): Promise<void> {
+  const result = await elicit(server, extra, {
+    message: `Deploying ${projectId} to production affects live traffic. Confirm to continue.`,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: {
+          type: 'boolean',
+          title: 'Deploy to production',
+          description: 'Tick to confirm this production deploy',
+          default: false,
+        },
+        reason: {
+          type: 'string',
+          title: 'Change reason',
+          description: 'Ticket or short note for the deploy log',
+        },
+      },
+      required: ['confirm'],
+    },
+  });
+
+  if (!result) {
+    throw new Error('Production deploys must be confirmed, but this client does not support elicitation.');
+  }
+
+  if (result.action !== 'accept' || result.content?.confirm !== true) {
+    throw new Error(`Production deploy of ${projectId} was ${describeRefusal(result)}.`);
+  }
+}
+
+async function resolveRiskLevel(
+  server: McpServer,
+  extra: ToolExtra,
+  projectId: string,
+  requested: RiskLevel | undefined,
+): Promise<RiskLevel> {
+  if (requested) {
+    return requested;
+  }
+
+  const result = await elicit(server, extra, {
+    message: `Which risk level should the security review of ${projectId} use?`,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        risk_level: {
+          type: 'string',
+          title: 'Risk level',
+          enum: [...riskLevels],
+          default: 'medium',
+        },
+      },
+      required: ['risk_level'],
+    },
+  });
+
+  if (!result) {
+    return 'medium';
+  }
+
+  if (result.action !== 'accept') {
+    throw new Error(`Security review of ${projectId} was ${describeRefusal(result)}.`);
+  }
+
+  const picked = result.content?.risk_level;
+  return riskLevels.find((level) => level === picked) ?? 'medium';
+}
+
+const TOOL_ORIGIN_META_KEY = 'laragentic/origin';
+const toolOrigins: ToolCallOrigin[] = ['chat', 'ui', 'app'];
+
+function readToolOrigin(extra: ToolExtra): ToolCallOrigin {
+  const origin = extra._meta?.[TOOL_ORIGIN_META_KEY];
+  return toolOrigins.find((candidate) => candidate === origin) ?? 'client';
+}
+
+// Writes the audit record, metrics and log line for a `tools/call` request. Names of
+// unknown tools are audited as sent but share one metrics label. The user is whoever sent
+// this request: `/mcp` passes its sign-in as `req.auth`, which the SDK hands on as `extra.authInfo`.
+function reportToolCall(call: ToolCallReport): void {
+  const user = auditUser(call.extra.authInfo?.token ?? '');
+  const record = auditLog.append({
+    user,
+    sessionId: call.extra.sessionId,
+    tool: call.tool,
+    arguments: call.arguments,
+    outcome: call.outcome,
+    error: call.error,
+    durationMs: call.durationMs,
+    origin: readToolOrigin(call.extra),
+  });
+  const tool = call.registered ? call.tool : 'unknown';
+  toolCallsTotal.inc({ tool, outcome: call.outcome });
+  toolCallDuration.observe({ tool }, record.durationMs / 1000);
+  logger[call.outcome === 'ok' ? 'info' : 'warn']('tool call', {
+    sessionId: record.sessionId,
+    user: user.login,
+    tool: call.tool,
+    outcome: call.outcome,
+    error: call.error,
+    durationMs: record.durationMs,
+    origin: record.origin,
+  });
+}
+
+function buildMcpServer(identity: SessionIdentity): McpServer {
+  const { access, projects: projectScope } = identity;
   const server = new McpServer({
     name: 'laragentic-mcp-ui-sidecar',
     version: '1.0.0',
   });
+  const tools = new SessionTools(server, access, reportToolCall);
 
   const appMime = 'text/html;profile=mcp-app';
 
@@ -382,7 +753,7 @@ function buildMcpServer(): McpServer {
           {
             uri,
             mimeType: appMime,
-            text: createToolHtml(toolName),
+            text: createToolHtml(toolName, projectScope.list()),
           },
         ],
       }),
@@ -393,7 +764,35 @@ function buildMcpServer(): McpServer {
     registerAppResource,
   );
 
-  server.registerTool(
+  server.registerResource(
+    'project',
+    new ResourceTemplate('project://{project_id}', {
+      list: async () => ({
+        resources: projectScope.list().map((project) => ({
+          uri: `project://${project.id}`,
+          name: project.name,
+          description: `${project.template} project (${project.status}, ${project.environment})`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      title: 'Project',
+      description: 'Current state of a demo project',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(projectScope.require(String(variables.project_id)), null, 2),
+        },
+      ],
+    }),
+  );
+
+  tools.register(
     'chat_turn',
     {
       description: 'Chat-first MCP orchestration tool for the demo.',
@@ -402,12 +801,13 @@ function buildMcpServer(): McpServer {
         conversation_id: z.string().optional(),
       },
     },
-    async (args) => {
+    async (args, extra) => {
       const intent = inferChatIntent(args.message);
       const conversationId = args.conversation_id ?? `conv_${randomUUID().slice(0, 8)}`;
 
       if (intent === 'list_projects') {
-        const rows = mockProjects
+        const projects = projectScope.list();
+        const rows = projects
           .map(
             (project) =>
               `| ${project.id} | ${project.name} | ${project.template} | ${project.status} | ${project.environment} |`,
@@ -416,17 +816,21 @@ function buildMcpServer(): McpServer {
 
         const actions: UiAction[] = [
           { label: 'Create Project', toolName: 'create_project', params: { name: 'MCP UI Demo', template: 'fullstack' } },
-          { label: 'Deploy First Project', toolName: 'deploy_project', params: { project_id: mockProjects[0].id, environment: 'staging' } },
-          { label: 'Security Review', toolName: 'security_review', params: { project_id: mockProjects[0].id, risk_level: 'medium' } },
         ];
+        if (projects[0]) {
+          actions.push(
+            { label: 'Deploy First Project', toolName: 'deploy_project', params: { project_id: projects[0].id, environment: 'staging' } },
+            { label: 'Security Review', toolName: 'security_review', params: { project_id: projects[0].id, risk_level: 'medium' } },
+          );
+        }
 
         return {
           content: [
             {
               type: 'text',
-              text: `Here are your projects (${mockProjects.length} total):\n\n| Project ID | Name | Template | Status | Environment |\n| --- | --- | --- | --- | --- |\n${rows}\n\nChoose a next action below.`,
+              text: `Here are your projects (${projects.length} total):\n\n| Project ID | Name | Template | Status | Environment |\n| --- | --- | --- | --- | --- |\n${rows}\n\nChoose a next action below.`,
             },
-            createUIResourceHtml('chat_turn', 'Projects Loaded', `Fetched ${mockProjects.length} projects.`, actions),
+            createUIResourceHtml('chat_turn', 'Projects Loaded', `Fetched ${projects.length} projects.`, actions),
           ],
           _meta: {
             chat: {
@@ -443,9 +847,9 @@ function buildMcpServer(): McpServer {
       }
 
       if (intent === 'create_project') {
-        const name = extractProjectName(args.message);
-        const template = extractTemplate(args.message);
-        const id = `proj_${Math.random().toString(16).slice(2, 10)}`;
+        const request = { name: extractProjectName(args.message), template: extractTemplate(args.message) };
+        access.authorize('create_project', request);
+        const { id, name, template } = projectScope.create(request);
         const actions: UiAction[] = [
           { label: 'List Projects', toolName: 'list_projects', params: {} },
           { label: 'Deploy This Project', toolName: 'deploy_project', params: { project_id: id, environment: 'staging' } },
@@ -474,8 +878,15 @@ function buildMcpServer(): McpServer {
       }
 
       if (intent === 'deploy_project') {
-        const projectId = extractProjectId(args.message);
+        const projectId = requireProjectId(args.message);
         const environment = extractEnvironment(args.message);
+        access.authorize('deploy_project', { project_id: projectId, environment });
+        projectScope.require(projectId);
+        if (environment === 'production') {
+          await confirmProductionDeploy(server, extra, projectId);
+        }
+        const deployment = await deploymentEngine.run(projectId, environment, reportDeploymentProgress(extra));
+        const succeeded = deployment.status === 'active';
         const actions: UiAction[] = [
           { label: 'Check Project List', toolName: 'list_projects', params: {} },
           { label: 'Run Security Review', toolName: 'security_review', params: { project_id: projectId, risk_level: 'medium' } },
@@ -486,12 +897,14 @@ function buildMcpServer(): McpServer {
           content: [
             {
               type: 'text',
-              text: `Deployment requested for \`${projectId}\` to **${environment}**.\n\nUse the actions below to continue the workflow.`,
+              text: succeeded
+                ? `Deployment \`${deployment.id}\` of \`${projectId}\` to **${environment}** is live.\n\nUse the actions below to continue the workflow.`
+                : `Deployment \`${deployment.id}\` of \`${projectId}\` to **${environment}** failed: ${deployment.message}.\n\nRun a security review or try deploying again.`,
             },
             createUIResourceHtml(
               'chat_turn',
-              'Deployment Started',
-              `Project ${projectId} is deploying to ${environment}.`,
+              succeeded ? 'Deployment Finished' : 'Deployment Failed',
+              `Project ${projectId} ${succeeded ? 'is live on' : 'failed to deploy to'} ${environment}.`,
               actions,
             ),
           ],
@@ -510,7 +923,7 @@ function buildMcpServer(): McpServer {
       }
 
       if (intent === 'security_review') {
-        const projectId = extractProjectId(args.message);
+        const projectId = projectScope.require(requireProjectId(args.message)).id;
         const actions: UiAction[] = [
           { label: 'Escalate Incident', toolName: 'incident_escalation', params: { service: 'api-gateway', severity: 'sev-2' } },
           { label: 'Deploy Project', toolName: 'deploy_project', params: { project_id: projectId, environment: 'staging' } },
@@ -539,7 +952,7 @@ function buildMcpServer(): McpServer {
       }
 
       if (intent === 'connect_repository') {
-        const projectId = extractProjectId(args.message, 'proj_e5f6g7h8');
+        const projectId = projectScope.require(requireProjectId(args.message)).id;
         const actions: UiAction[] = [
           { label: 'Connect GitHub', toolName: 'connect_repository', params: { project_id: projectId, provider: 'github' } },
           { label: 'Create Project', toolName: 'create_project', params: { name: 'Repo Connected App', template: 'fullstack' } },
@@ -567,11 +980,16 @@ function buildMcpServer(): McpServer {
         };
       }
 
+      // Suggested actions may offer the user's first project; nothing runs until they pick one.
+      const suggestedProjectId = findProjectId(args.message) ?? projectScope.list()[0]?.id;
+
       if (intent === 'incident_escalation') {
         const actions: UiAction[] = [
           { label: 'Run Escalation Plan', toolName: 'incident_escalation', params: { service: 'api-gateway', severity: 'sev-2' } },
-          { label: 'Run Security Review', toolName: 'security_review', params: { project_id: 'proj_a1b2c3d4', risk_level: 'high' } },
         ];
+        if (suggestedProjectId) {
+          actions.push({ label: 'Run Security Review', toolName: 'security_review', params: { project_id: suggestedProjectId, risk_level: 'high' } });
+        }
 
         return {
           content: [
@@ -598,8 +1016,10 @@ function buildMcpServer(): McpServer {
       const fallbackActions: UiAction[] = [
         { label: 'Show Projects', toolName: 'list_projects', params: {} },
         { label: 'Create Project', toolName: 'create_project', params: { name: 'Starter Project', template: 'fullstack' } },
-        { label: 'Deploy Project', toolName: 'deploy_project', params: { project_id: 'proj_a1b2c3d4', environment: 'staging' } },
       ];
+      if (suggestedProjectId) {
+        fallbackActions.push({ label: 'Deploy Project', toolName: 'deploy_project', params: { project_id: suggestedProjectId, environment: 'staging' } });
+      }
 
       return {
         content: [
@@ -624,24 +1044,28 @@ function buildMcpServer(): McpServer {
     },
   );
 
-  server.registerTool(
+  tools.register(
     'list_projects',
     {
       description: 'List all demo projects',
       _meta: { [RESOURCE_URI_META_KEY]: getToolUiUri('list_projects') },
+      inputSchema: {},
+    },
+    async () => {
+      const projects = projectScope.list();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ total: projects.length, projects }, null, 2),
+          },
+          createUIResourceHtml('list_projects', 'Projects Loaded', `Fetched ${projects.length} projects from MCP sidecar.`),
+        ],
+      };
     },
-    async () => ({
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({ total: mockProjects.length, projects: mockProjects }, null, 2),
-        },
-        createUIResourceHtml('list_projects', 'Projects Loaded', `Fetched ${mockProjects.length} projects from MCP sidecar.`),
-      ],
-    }),
   );
 
-  server.registerTool(
+  tools.register(
     'create_project',
     {
       description: 'Create a project',
@@ -649,73 +1073,138 @@ function buildMcpServer(): McpServer {
       inputSchema: {
         name: z.string(),
         template: z.string().optional(),
+        // Defaults to the caller's personal namespace; `org:<name>` creates a shared project.
+        owner: z.string().optional(),
+      },
+    },
+    async (args) => {
+      const project = projectScope.create({ name: args.name, template: args.template, owner: args.owner });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Created project ${project.name} (${project.template}) with id ${project.id}.`,
+          },
+          createUIResourceHtml('create_project', 'Project Created', `Created ${project.name} with id ${project.id}.`),
+        ],
+      };
+    },
+  );
+
+  tools.register(
+    'update_project',
+    {
+      description: 'Rename a project or change its template',
+      inputSchema: {
+        project_id: z.string(),
+        name: z.string().optional(),
+        template: z.string().optional(),
+      },
+    },
+    async (args) => {
+      const project = projectScope.update(args.project_id, { name: args.name, template: args.template });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Updated project ${project.id}: ${project.name} (${project.template}).`,
+          },
+          createUIResourceHtml('update_project', 'Project Updated', `${project.id} is now ${project.name} (${project.template}).`),
+        ],
+      };
+    },
+  );
+
+  tools.register(
+    'delete_project',
+    {
+      description: 'Delete a project',
+      inputSchema: {
+        project_id: z.string(),
       },
     },
     async (args) => {
-      const id = `proj_${Math.random().toString(16).slice(2, 10)}`;
+      const project = projectScope.delete(args.project_id);
       return {
         content: [
           {
             type: 'text',
-            text: `Created project ${args.name} (${args.template ?? 'default'}) with id ${id}.`,
+            text: `Deleted project ${project.name} (${project.id}).`,
           },
-          createUIResourceHtml('create_project', 'Project Created', `Created ${args.name} with id ${id}.`),
+          createUIResourceHtml('delete_project', 'Project Deleted', `Removed ${project.name} (${project.id}).`),
         ],
       };
     },
   );
 
-  server.registerTool(
+  tools.register(
     'deploy_project',
     {
       description: 'Deploy a project',
       _meta: { [RESOURCE_URI_META_KEY]: getToolUiUri('deploy_project') },
       inputSchema: {
         project_id: z.string(),
-        environment: z.string().default('staging'),
+        environment: z.enum(['staging', 'production', 'development']).default('staging'),
       },
     },
-    async (args) => ({
-      content: [
-        {
-          type: 'text',
-          text: `Deployment requested for ${args.project_id} to ${args.environment}.`,
-        },
-        createUIResourceHtml(
-          'deploy_project',
-          'Deployment Started',
-          `Project ${args.project_id} is deploying to ${args.environment}.`,
-        ),
-      ],
-    }),
+    async (args, extra) => {
+      projectScope.require(args.project_id);
+      if (args.environment === 'production') {
+        await confirmProductionDeploy(server, extra, args.project_id);
+      }
+
+      const deployment = await deploymentEngine.run(args.project_id, args.environment, reportDeploymentProgress(extra));
+      const project = projectScope.require(args.project_id);
+      const succeeded = deployment.status === 'active';
+      return {
+        content: [
+          {
+            type: 'text',
+            text: succeeded
+              ? `Deployment ${deployment.id} of ${project.id} to ${deployment.environment} is live at ${project.url}.`
+              : `Deployment ${deployment.id} of ${project.id} to ${deployment.environment} failed: ${deployment.message}.`,
+          },
+          createUIResourceHtml(
+            'deploy_project',
+            succeeded ? 'Deployment Finished' : 'Deployment Failed',
+            `Project ${project.id} ${succeeded ? 'is live on' : 'failed to deploy to'} ${deployment.environment}.`,
+          ),
+        ],
+        isError: !succeeded,
+      };
+    },
   );
 
-  server.registerTool(
+  tools.register(
     'security_review',
     {
       description: 'Run security review elicitation',
       _meta: { [RESOURCE_URI_META_KEY]: getToolUiUri('security_review') },
       inputSchema: {
         project_id: z.string(),
-        risk_level: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+        risk_level: z.enum(riskLevels).optional(),
       },
     },
-    async (args) => ({
-      content: [
-        {
-          type: 'text',
-          text: `Security review completed for ${args.project_id} at risk level ${args.risk_level ?? 'medium'}.`,
-        },
-        createUIResourceHtml(
-          'security_review',
-          'Security Review',
-          `Risk level set to ${args.risk_level ?? 'medium'} for ${args.project_id}.`,
-        ),
-      ],
-    }),
+    async (args, extra) => {
+      const project = projectScope.require(args.project_id);
+      const riskLevel = await resolveRiskLevel(server, extra, project.id, args.risk_level);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Security review completed for ${project.id} at risk level ${riskLevel}.`,
+          },
+          createUIResourceHtml(
+            'security_review',
+            'Security Review',
+            `Risk level set to ${riskLevel} for ${project.id}.`,
+          ),
+        ],
+      };
+    },
   );
 
-  server.registerTool(
+  tools.register(
     'connect_repository',
     {
       description: 'Connect project repository',
@@ -725,22 +1214,25 @@ function buildMcpServer(): McpServer {
         provider: z.string().default('github'),
       },
     },
-    async (args) => ({
-      content: [
-        {
-          type: 'text',
-          text: `Repository connected for ${args.project_id} via ${args.provider}.`,
-        },
-        createUIResourceHtml(
-          'connect_repository',
-          'Repository Connected',
-          `Connected ${args.project_id} to ${args.provider}.`,
-        ),
-      ],
-    }),
+    async (args) => {
+      const project = projectScope.update(args.project_id, { repository: args.provider });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Repository connected for ${project.id} via ${args.provider}.`,
+          },
+          createUIResourceHtml(
+            'connect_repository',
+            'Repository Connected',
+            `Connected ${project.id} to ${args.provider}.`,
+          ),
+        ],
+      };
+    },
   );
 
-  server.registerTool(
+  tools.register(
     'incident_escalation',
     {
       description: 'Create incident escalation plan',
@@ -773,41 +1265,465 @@ function getSessionId(req: Request): string | undefined {
   return raw?.trim() || undefined;
 }
 
-function isInitializeRequest(body: unknown): boolean {
-  if (!body || typeof body !== 'object') {
-    return false;
-  }
+type JsonRpcMessage = {
+  id?: string | number | null;
+  method?: string;
+  params?: { name?: unknown };
+};
 
-  if (Array.isArray(body)) {
-    return body.some((item) => item && typeof item === 'object' && 'method' in item && (item as { method?: string }).method === 'initialize');
-  }
+// The messages in a POST body, which holds one message or a batch.
+function jsonRpcMessages(body: unknown): JsonRpcMessage[] {
+  const items: unknown[] = Array.isArray(body) ? body : [body];
+  return items.filter((item): item is JsonRpcMessage => Boolean(item) && typeof item === 'object');
+}
 
-  return 'method' in body && (body as { method?: string }).method === 'initialize';
+function isInitializeRequest(body: unknown): boolean {
+  return jsonRpcMessages(body).some((message) => message.method === 'initialize');
 }
 
-function getAuthenticatedTokenId(req: Request): string | undefined {
-  const tokenId = req.cookies?.mcp_auth_token as string | undefined;
-  if (!tokenId) {
-    return undefined;
-  }
+const RATE_LIMITED_ERROR_CODE = -32029;
 
-  if (!tokenStore.get(tokenId)) {
-    return undefined;
-  }
+function rateLimitMessage(retryAfterSeconds: number): string {
+  return `Rate limited, retry in ${retryAfterSeconds}s.`;
+}
 
-  return tokenId;
+function rateLimitedRpcError(id: JsonRpcMessage['id'], retryAfterSeconds: number) {
+  return {
+    jsonrpc: '2.0',
+    id: id ?? null,
+    error: { code: RATE_LIMITED_ERROR_CODE, message: rateLimitMessage(retryAfterSeconds), data: { retryAfterSeconds } },
+  };
 }
 
-app.get('/oauth/authorize', (req, res) => {
-  if (!config.githubClientId || !config.githubClientSecret) {
-    res.status(500).json({ error: 'GitHub OAuth is not configured. Set GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET.' });
-    return;
-  }
+/**
+ * Per-IP limit for an HTTP route. Over-limit requests get 429 with `Retry-After`
+ * and the body `reject` writes.
+ */
+function limitByIp(
+  limiter: RateLimiter,
+  route: string,
+  reject: (res: Response, retryAfterSeconds: number) => void,
+): RequestHandler {
+  return (req, res, next) => {
+    const retryAfterSeconds = limiter.take(`${route}:${req.ip ?? req.socket.remoteAddress}`);
+    if (retryAfterSeconds === 0) {
+      next();
+      return;
+    }
+
+    res.set('Retry-After', String(retryAfterSeconds));
+    reject(res, retryAfterSeconds);
+  };
+}
+
+const limitOAuthRoute = (route: string) =>
+  limitByIp(oauthRateLimiter, route, (res, retryAfterSeconds) =>
+    sendOAuthError(res, new OAuthError('temporarily_unavailable', rateLimitMessage(retryAfterSeconds), 429)),
+  );
+
+/**
+ * Counts the requests in a `POST /mcp` body against the sign-in's bucket, and each
+ * `tools/call` against the sign-in's bucket for that tool. Returns the longest wait in
+ * seconds, or 0 when everything may go through.
+ */
+function takeMcpRequests(tokenId: string, messages: JsonRpcMessage[]): number {
+  let retryAfterSeconds = 0;
+
+  // Notifications and responses to server requests have no `id` or no `method`.
+  for (const message of messages.filter((entry) => entry.method && entry.id !== undefined)) {
+    retryAfterSeconds = Math.max(retryAfterSeconds, tokenRateLimiter.take(tokenId));
+
+    if (message.method === 'tools/call') {
+      const tool = String(message.params?.name);
+      const limiter = toolRateLimiters.get(tool) ?? defaultToolRateLimiter;
+      retryAfterSeconds = Math.max(retryAfterSeconds, limiter.take(`${tokenId}:${tool}`));
+    }
+  }
+
+  return retryAfterSeconds;
+}
+
+function getBearerToken(req: Request): string | undefined {
+  const header = req.header('authorization');
+  if (!header?.toLowerCase().startsWith('bearer ')) {
+    return undefined;
+  }
+
+  return header.slice(7).trim() || undefined;
+}
+
+// A bearer token issued by the authorization server takes precedence over the panel's cookie.
+function readRequestTokenId(req: Request): string | undefined {
+  const bearerToken = getBearerToken(req);
+  return bearerToken
+    ? authorizationServer.resolveAccessToken(bearerToken, getResourceUrl(req))?.tokenId
+    : (req.cookies?.mcp_auth_token as string | undefined);
+}
+
+// Resolving the token refreshes it when it is about to expire; a token that can no
+// longer be refreshed is dropped and the request counts as unauthenticated.
+async function getAuthenticatedTokenId(req: Request): Promise<string | undefined> {
+  const tokenId = readRequestTokenId(req);
+  if (!tokenId) {
+    return undefined;
+  }
+
+  if (!(await tokenRefresher.resolve(tokenId))) {
+    return undefined;
+  }
+
+  return tokenId;
+}
+
+async function closeMcpSession(sessionId: string): Promise<void> {
+  const session = mcpSessions.get(sessionId);
+  mcpSessions.delete(sessionId);
+  sessionStore.delete(sessionId);
+
+  if (session) {
+    logger.info('MCP session closed', { sessionId });
+    // Closing the server also closes its transport and any open SSE streams.
+    await session.server.close();
+    session.eventStore.dispose();
+  }
+}
+
+/**
+ * Ends a sign-in: drops the sidecar-issued tokens and the stored provider token, closes
+ * every MCP session it opened and, where the provider allows it, revokes the upstream grant.
+ */
+async function endSignIn(tokenId: string): Promise<void> {
+  const record = tokenStore.get(tokenId);
+  authorizationServer.revokeGrant(tokenId);
+  tokenStore.delete(tokenId);
+
+  const sessionIds = [...mcpSessions].filter(([, session]) => session.tokenId === tokenId).map(([sessionId]) => sessionId);
+  await Promise.all(sessionIds.map((sessionId) => closeMcpSession(sessionId)));
+
+  const provider = record ? identityProviders.get(providerIdOf(record)) : undefined;
+  if (record && provider) {
+    try {
+      await provider.revoke(record);
+    } catch (error) {
+      logger.error('could not revoke the provider grant', { provider: provider.id, user: record.userLogin, error });
+    }
+  }
+}
+
+/**
+ * Works out what the signed-in user may do under the tool policy and which project
+ * namespaces they work in. Both are resolved once per MCP session, when it is initialized.
+ */
+function auditUser(tokenId: string): AuditRecord['user'] {
+  const record = tokenStore.get(tokenId);
+  return { provider: record ? providerIdOf(record) : '', id: record?.userId ?? tokenId, login: record?.userLogin };
+}
+
+async function resolveSessionIdentity(req: Request, tokenId: string): Promise<SessionIdentity> {
+  const record = tokenStore.get(tokenId);
+  const provider = record ? providerIdOf(record) : '';
+  const bearerToken = getBearerToken(req);
+  const grantScope = bearerToken ? authorizationServer.resolveAccessToken(bearerToken, getResourceUrl(req))?.scope : undefined;
+
+  let memberships = { orgs: [] as string[], teams: [] as string[] };
+  if (record && provider === 'github' && needsGitHubMemberships) {
+    try {
+      memberships = await fetchGitHubMemberships(record.accessToken, githubUrls);
+    } catch (error) {
+      logger.error('could not read GitHub memberships', { user: record.userLogin, error });
+    }
+  }
+
+  const sharedOrgs = new Set(config.sharedProjectOrgs.map((org) => org.toLowerCase()));
+  const projects = projectStore.scope([
+    userNamespace(provider, record?.userId ?? tokenId),
+    ...memberships.orgs.filter((org) => sharedOrgs.has(org.toLowerCase())).map(orgNamespace),
+  ]);
+
+  const access = toolPolicy
+    ? toolPolicy.accessFor({
+        provider,
+        login: record?.userLogin,
+        subject: record?.userId === undefined ? undefined : String(record.userId),
+        // GitHub separates scopes with commas, OAuth with spaces.
+        scopes: `${record?.scope ?? ''} ${grantScope ?? ''}`.split(/[\s,]+/).filter(Boolean),
+        githubOrgs: memberships.orgs,
+        githubTeams: memberships.teams,
+      })
+    : ToolAccess.unrestricted();
+
+  return { access, projects };
+}
+
+// A session only answers the sign-in that initialized it; to any other caller it does not exist.
+async function findLiveSession(sessionId: string | undefined, tokenId: string): Promise<ServerSession | undefined> {
+  if (!sessionId) {
+    return undefined;
+  }
+
+  const session = mcpSessions.get(sessionId);
+  if (session && session.tokenId !== tokenId) {
+    return undefined;
+  }
+
+  const record = session?.openStreams ? sessionStore.upsert(sessionId) : sessionStore.get(sessionId);
+  if (session && record && isSessionExpired(record, sessionExpiryPolicy)) {
+    await closeMcpSession(sessionId);
+    return undefined;
+  }
+
+  return session;
+}
+
+// Session records are persisted, but the transport behind them only lives in this
+// process, so ids from a previous run or from an evicted session end up here too.
+// Clients treat 404 as a signal to re-initialize.
+function rejectUnknownSession(res: Response, sessionId: string | undefined): void {
+  if (sessionId && !mcpSessions.has(sessionId) && sessionStore.has(sessionId)) {
+    sessionStore.delete(sessionId);
+  }
+
+  res.status(404).json({ error: 'Unknown or expired MCP session. Re-initialize to start a new session.' });
+}
+
+function sendOAuthError(res: Response, error: unknown): void {
+  if (error instanceof OAuthError) {
+    res.status(error.statusCode).json({ error: error.code, error_description: error.message });
+    return;
+  }
+
+  logger.error('OAuth request failed', { error });
+  res.status(500).json({
+    error: 'server_error',
+    error_description: error instanceof Error ? error.message : 'OAuth request failed',
+  });
+}
+
+function buildClientRedirect(redirectUri: string, params: Record<string, string | undefined>): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+
+  return url.toString();
+}
+
+// client_secret_basic: the client id and secret are form-encoded inside the Basic credentials.
+function readClientCredentials(req: Request): { clientId: string; clientSecret: string } | undefined {
+  const header = req.header('authorization');
+  if (!header?.toLowerCase().startsWith('basic ')) {
+    return undefined;
+  }
+
+  const decoded = Buffer.from(header.slice(6).trim(), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) {
+    return undefined;
+  }
+
+  return {
+    clientId: decodeURIComponent(decoded.slice(0, separator)),
+    clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+  };
+}
+
+async function signIn(login: UpstreamLogin, code: string): Promise<OAuthTokenRecord> {
+  const provider = identityProviders.get(login.provider);
+  if (!provider) {
+    throw new Error(`Identity provider ${login.provider} is not configured.`);
+  }
+
+  const { tokens, user } = await provider.completeSignIn({ code, login });
+  const record: OAuthTokenRecord = {
+    tokenId: randomUUID(),
+    provider: provider.id,
+    ...tokens,
+    userId: user.id,
+    userLogin: user.login,
+    createdAt: new Date().toISOString(),
+  };
+
+  tokenStore.set(record);
+  setLogContext({ user: record.userLogin });
+  logger.info('signed in', { provider: provider.id });
+  signInsTotal.inc({ provider: provider.id, outcome: 'success' });
+  return record;
+}
+
+// Holds the upstream state of the client authorization this browser started.
+const CLIENT_AUTHORIZATION_COOKIE = 'mcp_oauth_authorization';
+
+/**
+ * Authorization request from an OAuth client (authorization code + PKCE S256).
+ * Problems with the client or redirect URI are shown here; everything else is
+ * reported back to the client's redirect URI.
+ */
+async function authorizeClient(
+  req: Request,
+  res: Response,
+  clientId: string,
+  provider: IdentityProvider | undefined,
+): Promise<void> {
+  const query = (name: string) => (typeof req.query[name] === 'string' ? (req.query[name] as string) : undefined);
+
+  const client = authorizationServer.getClient(clientId);
+  if (!client) {
+    sendOAuthError(res, new OAuthError('invalid_client', 'Unknown client_id.'));
+    return;
+  }
+
+  const redirectUri = query('redirect_uri') ?? (client.redirectUris.length === 1 ? client.redirectUris[0] : undefined);
+  if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+    sendOAuthError(res, new OAuthError('invalid_request', 'redirect_uri is missing or not registered for this client.'));
+    return;
+  }
+
+  const state = query('state');
+  const requestBaseUrl = getRequestBaseUrl(req);
+  const resourceUrl = getResourceUrl(req);
+  const resource = query('resource');
+
+  try {
+    if (query('response_type') !== 'code') {
+      throw new OAuthError('unsupported_response_type', 'Only response_type=code is supported.');
+    }
+
+    const codeChallenge = query('code_challenge');
+    if (!codeChallenge || query('code_challenge_method') !== 'S256') {
+      throw new OAuthError('invalid_request', 'PKCE with code_challenge_method=S256 is required.');
+    }
+
+    if (resource && resource !== resourceUrl && resource !== requestBaseUrl) {
+      throw new OAuthError('invalid_target', `Unknown resource ${resource}.`);
+    }
+
+    if (!provider) {
+      sendProviderPicker(req, res);
+      return;
+    }
+
+    const { url, upstreamState } = await authorizationServer.beginAuthorization(
+      // The grant is bound to the canonical /mcp URL, also when the client named the bare
+      // origin or no resource at all.
+      { clientId, redirectUri, codeChallenge, state, scope: query('scope') ?? client.scope, resource: resourceUrl },
+      provider,
+      `${requestBaseUrl}/oauth/callback/${provider.id}`,
+    );
+    // Without this cookie the callback and the consent form refuse the authorization, so a
+    // provider link started by someone else cannot be finished in this user's browser.
+    res.cookie(CLIENT_AUTHORIZATION_COOKIE, upstreamState, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: false,
+      signed: true,
+      maxAge: 10 * 60 * 1000,
+    });
+    res.redirect(url);
+  } catch (error) {
+    logger.warn('client authorization failed', { clientId, provider: provider?.id, error });
+    res.redirect(
+      buildClientRedirect(redirectUri, {
+        error: error instanceof OAuthError ? error.code : 'server_error',
+        error_description: error instanceof Error ? error.message : 'Authorization failed',
+        state,
+      }),
+    );
+  }
+}
+
+if (config.fakeOAuth) {
+  app.use(
+    '/fake-github',
+    createFakeGitHub({
+      clientId: config.githubClientId,
+      clientSecret: config.githubClientSecret,
+      users: config.fakeOAuthUsers,
+    }),
+  );
+  logger.warn('MCP_FAKE_OAUTH is on: GitHub sign-in goes to the fake GitHub', {
+    url: config.githubWebUrl,
+    users: config.fakeOAuthUsers,
+  });
+}
+
+/** Lists the configured providers; each link repeats the current authorize request with `provider` set. */
+function sendProviderPicker(req: Request, res: Response): void {
+  const links = [...identityProviders.values()].map((provider) => {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(req.query)) {
+      if (typeof value === 'string' && name !== 'provider') {
+        params.set(name, value);
+      }
+    }
+    params.set('provider', provider.id);
+
+    return `<li><a href="/oauth/authorize?${escapeHtml(params.toString())}">Continue with ${escapeHtml(provider.displayName)}</a></li>`;
+  });
+
+  res.type('text/html').send(`<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Sign in</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 360px; margin: 64px auto; padding: 0 16px; }
+      ul { list-style: none; padding: 0; }
+      a { display: block; margin: 8px 0; padding: 10px 14px; border: 1px solid #d4d4d8; border-radius: 8px; color: inherit; text-decoration: none; }
+      a:hover { background: #f4f4f5; }
+    </style>
+  </head>
+  <body>
+    <h1>Sign in</h1>
+    <ul>${links.join('')}</ul>
+  </body>
+</html>`);
+}
+
+app.get('/oauth/authorize', limitOAuthRoute('authorize'), async (req, res) => {
+  if (identityProviders.size === 0) {
+    res.status(500).json({
+      error: 'No identity provider is configured. Set GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET or MCP_OIDC_PROVIDERS.',
+    });
+    return;
+  }
+
+  const requestedProvider = typeof req.query.provider === 'string' ? req.query.provider : undefined;
+  const provider = requestedProvider
+    ? identityProviders.get(requestedProvider)
+    : identityProviders.size === 1
+      ? [...identityProviders.values()][0]
+      : undefined;
+  if (requestedProvider && !provider) {
+    res.status(400).json({ error: `Unknown identity provider ${requestedProvider}.` });
+    return;
+  }
+
+  // Requests carrying a client_id come from OAuth clients; the rest is the panel's cookie sign-in.
+  if (typeof req.query.client_id === 'string') {
+    await authorizeClient(req, res, req.query.client_id, provider);
+    return;
+  }
+
+  if (!provider) {
+    sendProviderPicker(req, res);
+    return;
+  }
 
   const state = generateOAuthState();
   const returnTo = typeof req.query.return_to === 'string' ? req.query.return_to : '';
   const requestBaseUrl = getRequestBaseUrl(req);
-  const redirectUri = `${requestBaseUrl}/oauth/callback/github`;
+
+  let upstream: Awaited<ReturnType<IdentityProvider['startSignIn']>>;
+  try {
+    upstream = await provider.startSignIn({ redirectUri: `${requestBaseUrl}/oauth/callback/${provider.id}`, state });
+  } catch (error) {
+    logger.error('could not start provider sign-in', { provider: provider.id, error });
+    res.status(502).json({ error: error instanceof Error ? error.message : `${provider.displayName} sign-in failed` });
+    return;
+  }
 
   res.cookie('mcp_oauth_state', state, {
     httpOnly: true,
@@ -825,60 +1741,107 @@ app.get('/oauth/authorize', (req, res) => {
     });
   }
 
-  res.cookie('mcp_oauth_redirect_uri', redirectUri, {
+  // The callback needs the provider, redirect URI, nonce and PKCE verifier of this sign-in.
+  res.cookie('mcp_oauth_upstream', JSON.stringify(upstream.login), {
     httpOnly: true,
     sameSite: 'lax',
     secure: false,
     maxAge: 10 * 60 * 1000,
   });
 
-  const authorizeUrl = buildGitHubAuthorizeUrl({
-    clientId: config.githubClientId,
-    redirectUri,
-    state,
-    scope: 'read:user user:email',
-  });
-
-  res.redirect(authorizeUrl);
+  res.redirect(upstream.url);
 });
 
-app.get('/oauth/callback/github', async (req, res) => {
+function readUpstreamLoginCookie(req: Request): UpstreamLogin | undefined {
+  const raw = req.cookies?.mcp_oauth_upstream as string | undefined;
+  try {
+    return raw ? (JSON.parse(raw) as UpstreamLogin) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+app.get('/oauth/callback/:provider', async (req, res) => {
+  const providerId = req.params.provider;
   const state = typeof req.query.state === 'string' ? req.query.state : '';
   const code = typeof req.query.code === 'string' ? req.query.code : '';
   const expectedState = req.cookies?.mcp_oauth_state as string | undefined;
   const returnTo = (req.cookies?.mcp_oauth_return_to as string | undefined) ?? '';
-  const redirectUriCookie = req.cookies?.mcp_oauth_redirect_uri as string | undefined;
+  const upstreamLogin = readUpstreamLoginCookie(req);
+  // The provider id comes from the URL, so only configured ones become metric labels.
+  const countFailure = () =>
+    signInsTotal.inc({ provider: identityProviders.has(providerId) ? providerId : 'unknown', outcome: 'failure' });
+
+  const boundState = req.signedCookies?.[CLIENT_AUTHORIZATION_COOKIE] as string | undefined;
+  const pending = state && boundState === state ? authorizationServer.takePendingAuthorization(state) : undefined;
+  if (pending) {
+    try {
+      if (pending.upstream.provider !== providerId) {
+        throw new OAuthError('access_denied', 'Sign-in returned from a different identity provider.');
+      }
+
+      if (!code) {
+        const upstreamError = typeof req.query.error === 'string' ? req.query.error : 'access_denied';
+        throw new OAuthError(upstreamError, 'Upstream sign-in did not complete.');
+      }
+
+      const record = await signIn(pending.upstream, code);
+      const subject = `${providerId}:${record.userId}`;
+      if (!authorizationServer.hasApproval(subject, pending)) {
+        const client = authorizationServer.getClient(pending.clientId);
+        if (!client) {
+          throw new OAuthError('invalid_client', 'The client is no longer registered.');
+        }
+
+        sendConsentPage(res, client, pending, authorizationServer.parkConsent(pending, state, record.tokenId, subject), record);
+        return;
+      }
+
+      res.clearCookie(CLIENT_AUTHORIZATION_COOKIE);
+      res.redirect(
+        buildClientRedirect(pending.redirectUri, {
+          code: authorizationServer.issueAuthorizationCode(pending, record.tokenId, subject),
+          state: pending.state,
+        }),
+      );
+    } catch (error) {
+      countFailure();
+      logger.warn('OAuth callback failed', { provider: providerId, clientId: pending.clientId, error });
+      res.redirect(
+        buildClientRedirect(pending.redirectUri, {
+          error: error instanceof OAuthError ? error.code : 'server_error',
+          error_description: error instanceof Error ? error.message : 'OAuth callback failed',
+          state: pending.state,
+        }),
+      );
+    }
+    return;
+  }
 
   if (!state || !code || !expectedState || state !== expectedState) {
+    countFailure();
+    logger.warn('OAuth callback failed', {
+      provider: providerId,
+      reason: code ? 'state mismatch' : 'missing code',
+      upstreamError: req.query.error,
+    });
     res.status(400).send('OAuth state mismatch or missing code.');
     return;
   }
 
-  try {
-    const redirectUri = redirectUriCookie ?? `${getRequestBaseUrl(req)}/oauth/callback/github`;
-    const token = await exchangeGitHubCode({
-      clientId: config.githubClientId,
-      clientSecret: config.githubClientSecret,
-      code,
-      redirectUri,
-    });
+  if (!upstreamLogin || upstreamLogin.provider !== providerId) {
+    countFailure();
+    logger.warn('OAuth callback failed', { provider: providerId, reason: 'provider mismatch' });
+    res.status(400).send('OAuth sign-in was started with a different identity provider.');
+    return;
+  }
 
-    const user = await fetchGitHubUser(token.access_token);
-    const tokenId = randomUUID();
-
-    tokenStore.set({
-      tokenId,
-      accessToken: token.access_token,
-      tokenType: token.token_type,
-      scope: token.scope,
-      userId: user.id,
-      userLogin: user.login,
-      createdAt: new Date().toISOString(),
-    });
+  try {
+    const { tokenId } = await signIn(upstreamLogin, code);
 
     res.clearCookie('mcp_oauth_state');
     res.clearCookie('mcp_oauth_return_to');
-    res.clearCookie('mcp_oauth_redirect_uri');
+    res.clearCookie('mcp_oauth_upstream');
 
     res.cookie('mcp_auth_token', tokenId, {
       httpOnly: true,
@@ -898,54 +1861,351 @@ app.get('/oauth/callback/github', async (req, res) => {
       }
     </script>Authentication complete.</body></html>`);
   } catch (error) {
+    countFailure();
+    logger.error('OAuth callback failed', { provider: providerId, error });
     const message = error instanceof Error ? error.message : 'OAuth callback failed';
     res.status(500).send(message);
   }
 });
 
-app.post('/oauth/token', async (req, res) => {
+/** Asks the user whether `client` may act for them; answered by `POST /oauth/consent`. */
+function sendConsentPage(
+  res: Response,
+  client: OAuthClientRecord,
+  request: AuthorizationRequest,
+  consentId: string,
+  record: OAuthTokenRecord,
+): void {
+  const redirect = new URL(request.redirectUri);
+  // Private-use schemes of native apps have no host; show the scheme instead.
+  const redirectHost = redirect.host || redirect.protocol.slice(0, -1);
+
+  // Framing the page would let another site trick the user into clicking Allow.
+  res.set('X-Frame-Options', 'DENY');
+  res.set('Content-Security-Policy', "frame-ancestors 'none'");
+  res.type('text/html').send(`<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Authorize ${escapeHtml(client.clientName ?? client.clientId)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 420px; margin: 64px auto; padding: 0 16px; }
+      button { display: block; width: 100%; margin: 8px 0; padding: 10px 14px; border: 1px solid #d4d4d8; border-radius: 8px; background: #fff; cursor: pointer; }
+      button[value="approve"] { background: #111827; color: #fff; }
+      code { word-break: break-all; }
+      p { color: #52525b; }
+    </style>
+  </head>
+  <body>
+    <h1>Authorize ${escapeHtml(client.clientName ?? 'an unnamed client')}</h1>
+    <p>Signed in as <strong>${escapeHtml(record.userLogin ?? String(record.userId))}</strong>.</p>
+    <p>Client <code>${escapeHtml(client.clientId)}</code> wants to use the MCP tools as you (scope <code>${escapeHtml(request.scope)}</code>).</p>
+    <p>Allowing it sends you back to <strong>${escapeHtml(redirectHost)}</strong>.</p>
+    <form method="post" action="/oauth/consent">
+      <input type="hidden" name="consent" value="${escapeHtml(consentId)}" />
+      <button type="submit" name="decision" value="approve">Allow</button>
+      <button type="submit" name="decision" value="deny">Deny</button>
+    </form>
+  </body>
+</html>`);
+}
+
+app.post('/oauth/consent', limitOAuthRoute('authorize'), (req, res) => {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const consent = typeof body.consent === 'string' ? authorizationServer.takePendingConsent(body.consent) : undefined;
+  // The cookie is SameSite, so a form posted from another site arrives without it.
+  if (!consent || req.signedCookies?.[CLIENT_AUTHORIZATION_COOKIE] !== consent.upstreamState) {
+    if (consent) {
+      tokenStore.delete(consent.tokenId);
+    }
+    logger.warn('OAuth consent failed', { clientId: consent?.clientId, reason: consent ? 'browser mismatch' : 'unknown consent' });
+    res.status(400).send('Authorization request is unknown, expired or was started in another browser.');
+    return;
+  }
+
+  res.clearCookie(CLIENT_AUTHORIZATION_COOKIE);
+
+  if (body.decision !== 'approve') {
+    // The sign-in was only made for this authorization.
+    tokenStore.delete(consent.tokenId);
+    logger.info('client authorization denied', { clientId: consent.clientId });
+    res.redirect(
+      buildClientRedirect(consent.redirectUri, {
+        error: 'access_denied',
+        error_description: 'The user denied the authorization request.',
+        state: consent.state,
+      }),
+    );
+    return;
+  }
+
+  authorizationServer.recordApproval(consent.subject, consent);
+  logger.info('client authorization approved', { clientId: consent.clientId });
+  res.redirect(
+    buildClientRedirect(consent.redirectUri, {
+      code: authorizationServer.issueAuthorizationCode(consent, consent.tokenId, consent.subject),
+      state: consent.state,
+    }),
+  );
+});
+
+app.post('/oauth/token', limitOAuthRoute('token'), (req, res) => {
   const bodySchema = z.object({
-    code: z.string(),
-    redirect_uri: z.string().url().optional(),
+    grant_type: z.string(),
+    client_id: z.string().optional(),
+    client_secret: z.string().optional(),
+    code: z.string().optional(),
+    redirect_uri: z.string().optional(),
+    code_verifier: z.string().optional(),
+    refresh_token: z.string().optional(),
+    scope: z.string().optional(),
+    resource: z.string().optional(),
   });
   const parsed = bodySchema.safeParse(req.body);
 
+  res.set('Cache-Control', 'no-store');
+
+  const grantType = parsed.data?.grant_type;
+  res.on('finish', () =>
+    tokenRequestsTotal.inc({
+      grant_type: grantType === 'authorization_code' || grantType === 'refresh_token' ? grantType : 'other',
+      outcome: res.statusCode < 400 ? 'success' : 'failure',
+    }),
+  );
+
   if (!parsed.success) {
-    res.status(400).json({ error: 'Invalid OAuth token request payload.' });
+    sendOAuthError(res, new OAuthError('invalid_request', 'Invalid OAuth token request payload.'));
     return;
   }
 
   try {
-    const redirectUri =
-      parsed.data.redirect_uri ?? `${getRequestBaseUrl(req)}/oauth/callback/github`;
-    const token = await exchangeGitHubCode({
-      clientId: config.githubClientId,
-      clientSecret: config.githubClientSecret,
-      code: parsed.data.code,
-      redirectUri,
+    const body = parsed.data;
+    const credentials = readClientCredentials(req) ?? { clientId: body.client_id, clientSecret: body.client_secret };
+    if (!credentials.clientId) {
+      throw new OAuthError('invalid_client', 'Client authentication is required.', 401);
+    }
+
+    const client = authorizationServer.authenticateClient(credentials.clientId, credentials.clientSecret);
+
+    if (body.grant_type === 'authorization_code') {
+      if (!body.code) {
+        throw new OAuthError('invalid_request', 'code is required.');
+      }
+
+      res.json(
+        authorizationServer.exchangeAuthorizationCode({
+          client,
+          code: body.code,
+          redirectUri: body.redirect_uri,
+          codeVerifier: body.code_verifier,
+          resource: body.resource === getRequestBaseUrl(req) ? getResourceUrl(req) : body.resource,
+        }),
+      );
+      return;
+    }
+
+    if (body.grant_type === 'refresh_token') {
+      if (!body.refresh_token) {
+        throw new OAuthError('invalid_request', 'refresh_token is required.');
+      }
+
+      res.json(authorizationServer.exchangeRefreshToken({ client, refreshToken: body.refresh_token, scope: body.scope }));
+      return;
+    }
+
+    throw new OAuthError('unsupported_grant_type', `Grant type ${body.grant_type} is not supported.`);
+  } catch (error) {
+    sendOAuthError(res, error);
+  }
+});
+
+// RFC 7009. Unknown, expired or foreign tokens are not an error: the response is 200 either way.
+app.post('/oauth/revoke', async (req, res) => {
+  const bodySchema = z.object({
+    token: z.string(),
+    token_type_hint: z.string().optional(),
+    client_id: z.string().optional(),
+    client_secret: z.string().optional(),
+  });
+  const parsed = bodySchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    sendOAuthError(res, new OAuthError('invalid_request', 'token is required.'));
+    return;
+  }
+
+  try {
+    const body = parsed.data;
+    const credentials = readClientCredentials(req) ?? { clientId: body.client_id, clientSecret: body.client_secret };
+    if (!credentials.clientId) {
+      throw new OAuthError('invalid_client', 'Client authentication is required.', 401);
+    }
+
+    const client = authorizationServer.authenticateClient(credentials.clientId, credentials.clientSecret);
+    const tokenId = authorizationServer.findRevocableGrant(client, body.token, body.token_type_hint);
+    if (tokenId) {
+      await endSignIn(tokenId);
+    }
+
+    res.status(200).end();
+  } catch (error) {
+    sendOAuthError(res, error);
+  }
+});
+
+// Constant-time comparison; an unset secret matches nothing.
+function matchesSecret(value: string | undefined, secret: string): boolean {
+  if (!secret || !value) {
+    return false;
+  }
+
+  const digest = (input: string) => createHash('sha256').update(input).digest();
+  return timingSafeEqual(digest(value), digest(secret));
+}
+
+function isIntrospectionClient(clientId?: string, clientSecret?: string): boolean {
+  return clientId === config.introspectionClientId && matchesSecret(clientSecret, config.introspectionClientSecret);
+}
+
+// RFC 7662, for the Laravel app: callers authenticate with the shared introspection
+// credential and learn which user, identity provider and scopes a sidecar token carries.
+app.post('/oauth/introspect', async (req, res) => {
+  const bodySchema = z.object({
+    token: z.string(),
+    token_type_hint: z.string().optional(),
+    client_id: z.string().optional(),
+    client_secret: z.string().optional(),
+  });
+  const parsed = bodySchema.safeParse(req.body);
+
+  res.set('Cache-Control', 'no-store');
+
+  const credentials = readClientCredentials(req) ?? { clientId: parsed.data?.client_id, clientSecret: parsed.data?.client_secret };
+  if (!isIntrospectionClient(credentials.clientId, credentials.clientSecret)) {
+    res.set('WWW-Authenticate', 'Basic realm="mcp-sidecar"');
+    sendOAuthError(res, new OAuthError('invalid_client', 'Introspection requires the shared client credential.', 401));
+    return;
+  }
+
+  if (!parsed.success) {
+    sendOAuthError(res, new OAuthError('invalid_request', 'token is required.'));
+    return;
+  }
+
+  const found = authorizationServer.findGrant(parsed.data.token, parsed.data.token_type_hint);
+  const record = found ? await tokenRefresher.resolve(found.grant.tokenId) : undefined;
+  if (!found || !record) {
+    res.json({ active: false });
+    return;
+  }
+
+  const { grant, tokenType } = found;
+  res.json({
+    active: true,
+    scope: grant.scope,
+    client_id: grant.clientId,
+    username: record.userLogin,
+    sub: grant.subject,
+    token_type: tokenType === 'access_token' ? 'Bearer' : 'refresh_token',
+    exp: Math.floor(grant.expiresAt / 1000),
+    iss: config.baseUrl,
+    aud: grant.resource ?? `${config.baseUrl}/mcp`,
+    provider: providerIdOf(record),
+    user: { id: record.userId, login: record.userLogin },
+    ...(providerIdOf(record) === 'github' ? { github_user: { id: record.userId, login: record.userLogin } } : {}),
+  });
+});
+
+app.post('/oauth/logout', async (req, res) => {
+  const tokenId = readRequestTokenId(req);
+  if (tokenId) {
+    await endSignIn(tokenId);
+  }
+
+  res.clearCookie('mcp_auth_token');
+  res.status(200).json({ authenticated: false });
+});
+
+app.post('/register', limitOAuthRoute('register'), (req, res) => {
+  const bodySchema = z.object({
+    redirect_uris: z.array(z.string()).min(1),
+    client_name: z.string().optional(),
+    token_endpoint_auth_method: z.enum(['none', 'client_secret_post', 'client_secret_basic']).optional(),
+    grant_types: z.array(z.enum(['authorization_code', 'refresh_token'])).optional(),
+    response_types: z.array(z.literal('code')).optional(),
+    scope: z.string().optional(),
+  });
+  const parsed = bodySchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    sendOAuthError(res, new OAuthError('invalid_client_metadata', 'Invalid client registration payload.'));
+    return;
+  }
+
+  try {
+    const { client, clientSecret } = authorizationServer.registerClient({
+      redirectUris: parsed.data.redirect_uris,
+      clientName: parsed.data.client_name,
+      tokenEndpointAuthMethod: parsed.data.token_endpoint_auth_method,
+      scope: parsed.data.scope,
     });
 
-    res.json(token);
+    res.status(201).json({
+      client_id: client.clientId,
+      client_secret: clientSecret,
+      client_id_issued_at: client.issuedAt,
+      client_secret_expires_at: clientSecret ? 0 : undefined,
+      client_name: client.clientName,
+      redirect_uris: client.redirectUris,
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+      scope: client.scope,
+    });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'OAuth token exchange failed';
-    res.status(500).json({ error: message });
+    sendOAuthError(res, error);
   }
 });
 
-app.get('/.well-known/oauth-authorization-server', (req, res) => {
-  const requestBaseUrl = getRequestBaseUrl(req);
+// RFC 8414: the issuer is the one tokens carry in `iss`, whichever allowed host the metadata is fetched from.
+app.get('/.well-known/oauth-authorization-server', (_req, res) => {
+  const issuer = config.baseUrl;
   res.json({
-    issuer: requestBaseUrl,
-    authorization_endpoint: `${requestBaseUrl}/oauth/authorize`,
-    token_endpoint: `${requestBaseUrl}/oauth/token`,
+    issuer,
+    authorization_endpoint: `${issuer}/oauth/authorize`,
+    token_endpoint: `${issuer}/oauth/token`,
+    registration_endpoint: `${issuer}/register`,
+    jwks_uri: `${issuer}/.well-known/jwks.json`,
+    revocation_endpoint: `${issuer}/oauth/revoke`,
+    revocation_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
+    introspection_endpoint: `${issuer}/oauth/introspect`,
+    introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    scopes_supported: SUPPORTED_SCOPES,
     response_types_supported: ['code'],
-    grant_types_supported: ['authorization_code'],
-    token_endpoint_auth_methods_supported: ['client_secret_post'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/.well-known/jwks.json', (_req, res) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.json(signingKeys.jwks());
+});
+
+// RFC 9728 metadata for the /mcp resource, served at the root and at the path-suffixed location.
+app.get(['/.well-known/oauth-protected-resource', '/.well-known/oauth-protected-resource/mcp'], (req, res) => {
+  res.json({
+    resource: getResourceUrl(req),
+    authorization_servers: [config.baseUrl],
+    scopes_supported: SUPPORTED_SCOPES,
+    bearer_methods_supported: ['header'],
   });
 });
 
-app.get('/oauth/session', (req, res) => {
-  const tokenId = getAuthenticatedTokenId(req);
+app.get('/oauth/session', async (req, res) => {
+  const tokenId = await getAuthenticatedTokenId(req);
   if (!tokenId) {
     res.status(200).json({ authenticated: false });
     return;
@@ -954,6 +2214,7 @@ app.get('/oauth/session', (req, res) => {
   const token = tokenStore.get(tokenId);
   res.status(200).json({
     authenticated: true,
+    provider: token ? providerIdOf(token) : undefined,
     user: {
       id: token?.userId,
       login: token?.userLogin,
@@ -961,6 +2222,100 @@ app.get('/oauth/session', (req, res) => {
   });
 });
 
+// Tool call audit log for operators, newest first and paged by `after`. Callers send `MCP_ADMIN_TOKEN` as a
+// bearer token; the endpoint does not exist while no admin token is configured.
+app.get('/admin/audit', (req, res) => {
+  if (!config.adminToken) {
+    res.status(404).json({ error: 'Not found.' });
+    return;
+  }
+
+  res.set('Cache-Control', 'no-store');
+
+  if (!matchesSecret(getBearerToken(req), config.adminToken)) {
+    res.set('WWW-Authenticate', 'Bearer realm="mcp-sidecar-admin"');
+    res.status(401).json({ error: 'The audit log requires the admin token.' });
+    return;
+  }
+
+  const querySchema = z.object({
+    user: z.string().optional(),
+    tool: z.string().optional(),
+    from: z.iso.datetime({ offset: true }).optional(),
+    to: z.iso.datetime({ offset: true }).optional(),
+    after: z.string().optional(),
+    limit: z.coerce.number().int().positive().max(1000).default(100),
+  });
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+    return;
+  }
+
+  const { from, to, ...filters } = parsed.data;
+  const records = auditLog.query({
+    ...filters,
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined,
+  });
+  // A full page may have more behind it; `next` is the `after` value that fetches it.
+  res.json({
+    records,
+    next: records.length === filters.limit ? records[records.length - 1].id : null,
+  });
+});
+
+// Without MCP_METRICS_PORT, /metrics is on the main listener and needs MCP_METRICS_TOKEN.
+// With it, /metrics gets its own listener on MCP_METRICS_HOST, and the token is optional.
+function serveMetrics(req: Request, res: Response): void {
+  if (config.metricsToken && !matchesSecret(getBearerToken(req), config.metricsToken)) {
+    res.set('WWW-Authenticate', 'Bearer realm="mcp-sidecar-metrics"');
+    res.status(401).json({ error: 'Metrics require the metrics token.' });
+    return;
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.set('Content-Type', MetricsRegistry.contentType).send(metrics.render());
+}
+
+let metricsServer: ReturnType<typeof app.listen> | undefined;
+if (config.metricsPort) {
+  const metricsApp = express();
+  metricsApp.get('/metrics', serveMetrics);
+  metricsServer = metricsApp.listen(config.metricsPort, config.metricsHost, () => {
+    logger.info('metrics listening', { url: `http://${config.metricsHost}:${config.metricsPort}/metrics` });
+  });
+} else if (config.metricsToken) {
+  app.get('/metrics', serveMetrics);
+}
+
+// Liveness: the process is up and serving HTTP.
+app.get('/healthz', (_req, res) => {
+  res.set('Cache-Control', 'no-store');
+  res.json({ status: 'ok' });
+});
+
+// Readiness: storage can be read and the sidecar is not shutting down.
+app.get('/readyz', (_req, res) => {
+  const check = (probe: () => void) => {
+    try {
+      probe();
+      return 'ok';
+    } catch (error) {
+      return error instanceof Error ? error.message : 'unreachable';
+    }
+  };
+
+  const checks = {
+    storage: check(() => storage.ping()),
+    eventStore: check(() => checkEventStore(config)),
+  };
+  const ready = !shuttingDown && Object.values(checks).every((result) => result === 'ok');
+
+  res.set('Cache-Control', 'no-store');
+  res.status(ready ? 200 : 503).json({ status: shuttingDown ? 'shutting_down' : ready ? 'ready' : 'unavailable', checks });
+});
+
 app.get('/sandbox_proxy.html', (_req, res) => {
   res.type('text/html').send(`<!doctype html>
 <html>
@@ -1004,16 +2359,27 @@ app.get('/sandbox_proxy.html', (_req, res) => {
 </html>`);
 });
 
-app.all('/mcp', async (req, res) => {
+const limitMcpRoute = limitByIp(mcpRateLimiter, 'mcp', (res, retryAfterSeconds) =>
+  res.status(429).json(rateLimitedRpcError(null, retryAfterSeconds)),
+);
+
+app.all('/mcp', limitMcpRoute, async (req, res) => {
   const origin = req.headers.origin;
   if (origin && !config.allowedOrigins.has(origin)) {
     res.status(403).json({ error: 'Forbidden origin.' });
     return;
   }
 
-  const tokenId = getAuthenticatedTokenId(req);
+  const tokenId = await getAuthenticatedTokenId(req);
   if (!tokenId) {
     const requestBaseUrl = getRequestBaseUrl(req);
+    // RFC 6750 challenge pointing at the RFC 9728 metadata, so OAuth clients can discover the authorization server.
+    const challenge = [
+      getBearerToken(req) ? 'error="invalid_token"' : undefined,
+      `resource_metadata="${requestBaseUrl}/.well-known/oauth-protected-resource/mcp"`,
+      `scope="${SUPPORTED_SCOPES.join(' ')}"`,
+    ].filter(Boolean);
+    res.set('WWW-Authenticate', `Bearer ${challenge.join(', ')}`);
     res.status(401).json({
       error: 'Unauthorized',
       authorization_url: `${requestBaseUrl}/oauth/authorize?return_to=${encodeURIComponent(`${config.allowedOrigins.values().next().value ?? 'http://127.0.0.1:8000'}/tutorial/mcp-chat`)}`,
@@ -1022,6 +2388,9 @@ app.all('/mcp', async (req, res) => {
   }
 
   const sessionId = getSessionId(req);
+  setLogContext({ user: tokenStore.get(tokenId)?.userLogin });
+  const auth: AuthInfo = { token: tokenId, clientId: '', scopes: [] };
+  Object.assign(req, { auth });
 
   if (req.method === 'POST') {
     const initializationRequest = isInitializeRequest(req.body);
@@ -1031,27 +2400,69 @@ app.all('/mcp', async (req, res) => {
       return;
     }
 
+    const messages = jsonRpcMessages(req.body);
+    // Other messages, such as answers to elicitation requests, still go through so
+    // in-flight tool calls can finish.
+    if (shuttingDown && messages.some((message) => message.method === 'initialize' || message.method === 'tools/call')) {
+      res.status(503).json({ error: 'The sidecar is shutting down.' });
+      return;
+    }
+
+    const retryAfterSeconds = takeMcpRequests(tokenId, messages);
+    if (retryAfterSeconds > 0) {
+      // Inside a session the limit is a JSON-RPC error on each request, which clients
+      // surface on the call that hit it.
+      const errors = messages
+        .filter((message) => message.method && message.id !== undefined)
+        .map((message) => rateLimitedRpcError(message.id, retryAfterSeconds));
+      res.json(Array.isArray(req.body) ? errors : errors[0]);
+      return;
+    }
+
+    if (messages.some((message) => message.method === 'tools/call')) {
+      trackToolCallRequest(res);
+    }
+
     if (!sessionId && initializationRequest) {
+      const eventStore = createSessionEventStore(config);
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
+        eventStore,
       });
-
-      const server = buildMcpServer();
-      await server.connect(transport);
-
-      await transport.handleRequest(req, res, req.body);
+      transport.onerror = (error) => logger.error('MCP transport error', { sessionId: transport.sessionId, error });
+
+      const identity = await resolveSessionIdentity(req, tokenId);
+      const server = buildMcpServer(identity);
+      try {
+        await server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        // The session never started; release it before the error middleware answers.
+        await server.close().catch(() => undefined);
+        eventStore.dispose();
+        throw error;
+      }
 
       if (transport.sessionId) {
-        mcpSessions.set(transport.sessionId, { transport, server });
+        setLogContext({ sessionId: transport.sessionId });
+        logger.info('MCP session started');
+        mcpSessions.set(transport.sessionId, {
+          transport,
+          server,
+          eventStore,
+          tokenId,
+          projects: identity.projects,
+          openStreams: 0,
+        });
         sessionStore.upsert(transport.sessionId);
       }
 
       return;
     }
 
-    const existing = sessionId ? mcpSessions.get(sessionId) : undefined;
+    const existing = await findLiveSession(sessionId, tokenId);
     if (!existing) {
-      res.status(404).json({ error: 'Unknown MCP session.' });
+      rejectUnknownSession(res, sessionId);
       return;
     }
 
@@ -1067,13 +2478,17 @@ app.all('/mcp', async (req, res) => {
       return;
     }
 
-    const existing = mcpSessions.get(sessionId);
+    const existing = await findLiveSession(sessionId, tokenId);
     if (!existing) {
-      res.status(404).json({ error: 'Unknown MCP session.' });
+      rejectUnknownSession(res, sessionId);
       return;
     }
 
     sessionStore.upsert(sessionId);
+    existing.openStreams += 1;
+    res.on('close', () => {
+      existing.openStreams -= 1;
+    });
     await existing.transport.handleRequest(req, res);
     return;
   }
@@ -1084,22 +2499,123 @@ app.all('/mcp', async (req, res) => {
       return;
     }
 
-    const existing = mcpSessions.get(sessionId);
+    const existing = await findLiveSession(sessionId, tokenId);
     if (!existing) {
-      res.status(404).json({ error: 'Unknown MCP session.' });
+      rejectUnknownSession(res, sessionId);
       return;
     }
 
     await existing.transport.handleRequest(req, res);
-    await existing.server.close();
-    mcpSessions.delete(sessionId);
-    sessionStore.delete(sessionId);
+    await closeMcpSession(sessionId);
     return;
   }
 
   res.status(405).json({ error: `Method ${req.method} not allowed.` });
 });
 
-app.listen(config.port, config.host, () => {
-  console.log(`[mcp-sidecar] listening on http://${config.host}:${config.port}`);
+type ErrorWithStatus = Error & { status?: number; statusCode?: number; type?: string };
+
+function errorStatus(error: unknown): number {
+  const { status, statusCode } = (error ?? {}) as ErrorWithStatus;
+  const code = statusCode ?? status;
+  return typeof code === 'number' && code >= 400 && code < 600 ? code : 500;
+}
+
+/**
+ * Last stop for errors thrown by routes and middleware (Express 5 forwards rejected
+ * async handlers here). `/mcp` gets JSON-RPC error objects carrying the ids of the
+ * requests in the body, everything else `{ error, requestId }`. Server errors are
+ * answered with a generic message; the details only go to the log.
+ */
+const handleError: ErrorRequestHandler = (error: unknown, req, res, next) => {
+  const status = errorStatus(error);
+  logger[status >= 500 ? 'error' : 'warn']('request failed', {
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    status,
+    // Client errors are expected; their stack traces would only add noise.
+    error: status >= 500 || !(error instanceof Error) ? error : error.message,
+  });
+
+  // Mid-stream (an SSE response, say) there is nothing left to answer with; Express closes the connection.
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const message = status >= 500 ? 'Internal server error.' : error instanceof Error ? error.message : 'Bad request.';
+  const requestId = res.get('X-Request-Id');
+
+  if (req.path === '/mcp') {
+    const code =
+      (error as ErrorWithStatus).type === 'entity.parse.failed'
+        ? ErrorCode.ParseError
+        : status >= 500
+          ? ErrorCode.InternalError
+          : ErrorCode.InvalidRequest;
+    const toError = (id: JsonRpcMessage['id']) => ({ jsonrpc: '2.0', id: id ?? null, error: { code, message, data: { requestId } } });
+    const requests = jsonRpcMessages(req.body).filter((entry) => entry.method && entry.id !== undefined);
+
+    res.status(status).json(Array.isArray(req.body) && requests.length > 0 ? requests.map((entry) => toError(entry.id)) : toError(requests[0]?.id));
+    return;
+  }
+
+  res.status(status).json({ error: message, requestId });
+};
+
+app.use(handleError);
+
+const stopSessionReaper = startSessionReaper({
+  sessionStore,
+  policy: sessionExpiryPolicy,
+  intervalMs: config.sessionSweepIntervalMs,
+  onExpired: closeMcpSession,
+  isConnected: (sessionId) => (mcpSessions.get(sessionId)?.openStreams ?? 0) > 0,
+  // Expired codes, tokens and clients pile up on a server that only sees refreshes otherwise.
+  onSweep: () => {
+    authorizationServer.pruneExpired();
+    auditLog.prune();
+  },
+  logger,
 });
+
+const httpServer = app.listen(config.port, config.host, () => {
+  logger.info('listening', { url: `http://${config.host}:${config.port}` });
+});
+
+/**
+ * Stops taking new sessions and tool calls (`/readyz` reports 503 meanwhile), gives
+ * in-flight tool calls up to `MCP_SHUTDOWN_TIMEOUT_SECONDS` to finish, then closes every
+ * MCP session (server, transport and SSE streams), the listeners and storage. A second
+ * signal exits at once.
+ */
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) {
+    logger.warn('second shutdown signal, exiting immediately', { signal });
+    process.exit(1);
+  }
+
+  shuttingDown = true;
+  logger.info('shutting down', { signal, sessions: mcpSessions.size, inFlightToolCalls: inFlightToolCalls.size });
+  stopSessionReaper();
+
+  const deadline = Date.now() + config.shutdownTimeoutMs;
+  while (inFlightToolCalls.size > 0 && Date.now() < deadline) {
+    await Promise.race([Promise.allSettled([...inFlightToolCalls]), sleep(deadline - Date.now())]);
+  }
+  if (inFlightToolCalls.size > 0) {
+    logger.warn('shutdown deadline passed with tool calls still running', { inFlightToolCalls: inFlightToolCalls.size });
+  }
+
+  await Promise.allSettled([...mcpSessions.keys()].map((sessionId) => closeMcpSession(sessionId)));
+  httpServer.close();
+  httpServer.closeAllConnections();
+  metricsServer?.close();
+  storage.close();
+
+  logger.info('shutdown complete');
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { Logger } from './logger.js';
+import { isSessionExpired, startSessionReaper } from './sessionReaper.js';
+import { MemoryStorageBackend } from './store/memoryStorage.js';
+import { SessionStore } from './store/sessionStore.js';
+
+const MINUTE_MS = 60 * 1000;
+const policy = { idleTtlMs: 30 * MINUTE_MS, maxLifetimeMs: 12 * 60 * MINUTE_MS };
+
+// Moves the clock one sweep at a time and lets each sweep, which awaits `onExpired`, finish.
+async function advance(ms: number): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed += MINUTE_MS) {
+    mock.timers.tick(MINUTE_MS);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('isSessionExpired', () => {
+  const record = { sessionId: 's1', createdAt: '2026-01-01T00:00:00.000Z', lastSeenAt: '2026-01-01T11:50:00.000Z' };
+
+  it('expires sessions idle past the TTL or alive past the maximum lifetime', () => {
+    assert.equal(isSessionExpired(record, policy, Date.parse('2026-01-01T12:00:00Z')), false);
+    assert.equal(isSessionExpired(record, policy, Date.parse('2026-01-01T12:20:01Z')), true);
+    assert.equal(isSessionExpired({ ...record, lastSeenAt: '2026-01-01T12:00:00.000Z' }, policy, Date.parse('2026-01-01T12:00:01Z')), true);
+  });
+});
+
+describe('startSessionReaper', () => {
+  afterEach(() => mock.timers.reset());
+
+  function startReaper(connected: Set<string>) {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+    const sessionStore = new SessionStore(new MemoryStorageBackend());
+    const expired: string[] = [];
+    let sweeps = 0;
+    const stop = startSessionReaper({
+      sessionStore,
+      policy,
+      intervalMs: MINUTE_MS,
+      onExpired: async (sessionId) => {
+        expired.push(sessionId);
+        sessionStore.delete(sessionId);
+      },
+      onSweep: () => {
+        sweeps += 1;
+      },
+      isConnected: (sessionId) => connected.has(sessionId),
+      logger: new Logger('error'),
+    });
+
+    return { sessionStore, expired, stop, sweeps: () => sweeps };
+  }
+
+  it('hands idle sessions to onExpired and runs onSweep on every sweep', async () => {
+    const { sessionStore, expired, stop, sweeps } = startReaper(new Set());
+    sessionStore.upsert('idle');
+    await advance(10 * MINUTE_MS);
+    sessionStore.upsert('busy');
+
+    await advance(21 * MINUTE_MS);
+
+    assert.deepEqual(expired, ['idle']);
+    assert.deepEqual(sessionStore.list().map((record) => record.sessionId), ['busy']);
+    assert.equal(sweeps(), 31);
+    stop();
+  });
+
+  it('keeps sessions with an open stream until their maximum lifetime', async () => {
+    const connected = new Set(['streaming']);
+    const { sessionStore, expired, stop } = startReaper(connected);
+    sessionStore.upsert('streaming');
+
+    await advance(2 * 60 * MINUTE_MS);
+    assert.deepEqual(expired, []);
+    assert.equal(sessionStore.get('streaming')?.lastSeenAt, new Date().toISOString());
+
+    await advance(10 * 60 * MINUTE_MS + MINUTE_MS);
+    assert.deepEqual(expired, ['streaming']);
+    stop();
+  });
+
+  it('lets a session go idle once its stream closes', async () => {
+    const connected = new Set(['streaming']);
+    const { expired, sessionStore, stop } = startReaper(connected);
+    sessionStore.upsert('streaming');
+
+    await advance(60 * MINUTE_MS);
+    connected.delete('streaming');
+    await advance(30 * MINUTE_MS);
+    assert.deepEqual(expired, []);
+
+    await advance(MINUTE_MS);
+    assert.deepEqual(expired, ['streaming']);
+    stop();
+  });
+
+  it('stops sweeping once stopped', async () => {
+    const { sessionStore, expired, stop } = startReaper(new Set());
+    sessionStore.upsert('idle');
+    stop();
+
+    await advance(60 * MINUTE_MS);
+    assert.deepEqual(expired, []);
+  });
+});
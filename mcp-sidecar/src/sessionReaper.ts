@@ -0,0 +1,63 @@
+import type { Logger } from './logger.js';
+import type { SessionRecord, SessionStore } from './store/sessionStore.js';
+
+export type SessionExpiryPolicy = {
+  idleTtlMs: number;
+  maxLifetimeMs: number;
+};
+
+export function isSessionExpired(record: SessionRecord, policy: SessionExpiryPolicy, now = Date.now()): boolean {
+  const idleFor = now - Date.parse(record.lastSeenAt);
+  const aliveFor = now - Date.parse(record.createdAt);
+
+  return idleFor > policy.idleTtlMs || aliveFor > policy.maxLifetimeMs;
+}
+
+/**
+ * Periodically hands expired sessions to `onExpired`, which is responsible for
+ * closing the transport/server pair and removing the record, and runs `onSweep` for
+ * other expiry housekeeping. Sessions `isConnected` reports (an open GET stream, say)
+ * count as seen on every sweep, so only the maximum lifetime ends them. Returns a stop
+ * function.
+ */
+export function startSessionReaper(options: {
+  sessionStore: SessionStore;
+  policy: SessionExpiryPolicy;
+  intervalMs: number;
+  onExpired: (sessionId: string) => Promise<void>;
+  onSweep?: () => void;
+  isConnected?: (sessionId: string) => boolean;
+  logger: Logger;
+}): () => void {
+  let sweeping = false;
+
+  const sweep = async () => {
+    if (sweeping) {
+      return;
+    }
+
+    sweeping = true;
+    try {
+      options.onSweep?.();
+      const now = Date.now();
+      for (const listed of options.sessionStore.list()) {
+        const record = options.isConnected?.(listed.sessionId) ? options.sessionStore.upsert(listed.sessionId) : listed;
+        if (isSessionExpired(record, options.policy, now)) {
+          options.logger.info('MCP session expired', { sessionId: record.sessionId });
+          await options.onExpired(record.sessionId);
+        }
+      }
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  const timer = setInterval(() => {
+    void sweep().catch((error: unknown) => {
+      options.logger.error('session sweep failed', { error });
+    });
+  }, options.intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ToolAccess } from './auth/toolPolicy.js';
+import { SessionTools, type ToolCallReport } from './sessionTools.js';
+
+const access = new ToolAccess(['member'], {
+  delete_project: [{ roles: ['maintainer'], arguments: {} }],
+  deploy_project: [
+    { roles: ['member'], arguments: { environment: ['staging'] } },
+    { roles: ['maintainer'], arguments: {} },
+  ],
+});
+
+async function connect() {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const reports: ToolCallReport[] = [];
+  const ran: string[] = [];
+  const tools = new SessionTools(server, access, (report) => reports.push(report));
+
+  tools.register('list_projects', { description: 'List projects', inputSchema: {} }, () => {
+    ran.push('list_projects');
+    return { content: [{ type: 'text', text: '[]' }] };
+  });
+  tools.register('delete_project', { description: 'Delete a project', inputSchema: { project_id: z.string() } }, () => {
+    ran.push('delete_project');
+    return { content: [{ type: 'text', text: 'deleted' }] };
+  });
+  tools.register(
+    'deploy_project',
+    {
+      description: 'Deploy a project',
+      _meta: { ui: 'deploy' },
+      inputSchema: { project_id: z.string(), environment: z.enum(['staging', 'production']).default('staging') },
+    },
+    (args) => {
+      ran.push('deploy_project');
+      if (args.project_id === 'proj_missing') {
+        throw new Error(`Project ${args.project_id} does not exist.`);
+      }
+      return { content: [{ type: 'text', text: `${args.project_id} on ${args.environment}` }] };
+    },
+  );
+
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { client, reports, ran };
+}
+
+function text(result: Awaited<ReturnType<Client['callTool']>>): string {
+  return (result.content as { type: string; text: string }[])[0].text;
+}
+
+describe('SessionTools', () => {
+  it('lists only the tools the user could ever call, with their input schemas', async () => {
+    const { client } = await connect();
+    const { tools } = await client.listTools();
+
+    assert.deepEqual(tools.map((tool) => tool.name), ['list_projects', 'deploy_project']);
+    const deploy = tools.find((tool) => tool.name === 'deploy_project');
+    assert.deepEqual(deploy?._meta, { ui: 'deploy' });
+    assert.deepEqual(deploy?.inputSchema.required, ['project_id']);
+    assert.deepEqual(Object.keys(deploy?.inputSchema.properties ?? {}), ['project_id', 'environment']);
+    await client.close();
+  });
+
+  it('runs allowed calls with parsed arguments and reports them', async () => {
+    const { client, reports } = await connect();
+    const result = await client.callTool({ name: 'deploy_project', arguments: { project_id: 'proj_1' } });
+
+    assert.equal(result.isError, undefined);
+    assert.equal(text(result), 'proj_1 on staging');
+    assert.deepEqual(
+      reports.map(({ tool, outcome }) => ({ tool, outcome })),
+      [{ tool: 'deploy_project', outcome: 'ok' }],
+    );
+    await client.close();
+  });
+
+  it('refuses calls the policy denies with a permission error, without running the tool', async () => {
+    const { client, reports, ran } = await connect();
+
+    const denied = await client.callTool({ name: 'deploy_project', arguments: { project_id: 'proj_1', environment: 'production' } });
+    const hidden = await client.callTool({ name: 'delete_project', arguments: { project_id: 'proj_1' } });
+
+    assert.equal(denied.isError, true);
+    assert.equal(text(denied), 'Permission denied: deploy_project with environment=production requires the maintainer role.');
+    assert.equal(hidden.isError, true);
+    assert.equal(text(hidden), 'Permission denied: delete_project requires the maintainer role.');
+    assert.deepEqual(ran, []);
+    assert.deepEqual(
+      reports.map(({ outcome, error }) => ({ outcome, error })),
+      [
+        { outcome: 'denied', error: text(denied) },
+        { outcome: 'denied', error: text(hidden) },
+      ],
+    );
+    await client.close();
+  });
+
+  it('turns invalid arguments and tool failures into tool errors', async () => {
+    const { client, reports, ran } = await connect();
+
+    const invalid = await client.callTool({ name: 'deploy_project', arguments: { environment: 'staging' } });
+    const failed = await client.callTool({ name: 'deploy_project', arguments: { project_id: 'proj_missing' } });
+
+    assert.equal(invalid.isError, true);
+    assert.match(text(invalid), /^Invalid arguments for tool deploy_project: .*project_id/s);
+    assert.equal(failed.isError, true);
+    assert.equal(text(failed), 'Project proj_missing does not exist.');
+    assert.deepEqual(ran, ['deploy_project']);
+    assert.deepEqual(
+      reports.map(({ outcome, error }) => ({ outcome, error })),
+      [
+        { outcome: 'error', error: text(invalid) },
+        { outcome: 'error', error: 'Project proj_missing does not exist.' },
+      ],
+    );
+    await client.close();
+  });
+
+  it('records a denied call as denied even when its arguments are invalid too', async () => {
+    const { client, reports } = await connect();
+
+    const result = await client.callTool({ name: 'delete_project', arguments: {} });
+
+    assert.equal(text(result), 'Permission denied: delete_project requires the maintainer role.');
+    assert.deepEqual(reports.map(({ outcome }) => outcome), ['denied']);
+    await client.close();
+  });
+
+  it('answers unknown tools with an invalid-params error and still reports them', async () => {
+    const { client, reports } = await connect();
+
+    await assert.rejects(client.callTool({ name: 'drop_database', arguments: { force: true } }), /Tool drop_database not found/);
+    assert.deepEqual(
+      reports.map(({ tool, registered, arguments: args, outcome }) => ({ tool, registered, args, outcome })),
+      [{ tool: 'drop_database', registered: false, args: { force: true }, outcome: 'error' }],
+    );
+    await client.close();
+  });
+});
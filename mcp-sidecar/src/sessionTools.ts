@@ -0,0 +1,141 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { PermissionDeniedError, type ToolAccess } from './auth/toolPolicy.js';
+import type { ToolCallOutcome } from './store/auditLog.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type ToolShape = Record<string, z.ZodType>;
+
+type ToolHandler<Args> = (args: Args, extra: ToolExtra) => CallToolResult | Promise<CallToolResult>;
+
+export type ToolDefinition<Shape extends ToolShape> = {
+  description: string;
+  _meta?: Record<string, unknown>;
+  // Tools without arguments take an empty shape.
+  inputSchema: Shape;
+};
+
+/** A finished `tools/call` request, as handed to `onCall`. */
+export type ToolCallReport = {
+  tool: string;
+  // False when the client asked for a tool this session does not have.
+  registered: boolean;
+  arguments: Record<string, unknown>;
+  outcome: ToolCallOutcome;
+  error?: string;
+  durationMs: number;
+  extra: ToolExtra;
+};
+
+type SessionTool = {
+  description: string;
+  _meta?: Record<string, unknown>;
+  inputSchema: z.ZodObject;
+  handler: ToolHandler<Record<string, unknown>>;
+};
+
+function toolError(error: unknown): CallToolResult {
+  return {
+    content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+    isError: true,
+  };
+}
+
+/**
+ * The tools of one MCP session, served under the signed-in user's `ToolAccess`.
+ * `tools/list` leaves out tools the user can never call, and a call the policy refuses
+ * fails with the permission-denied message before the tool runs. `onCall` hears about
+ * every `tools/call`, including unknown tools, invalid arguments and denied calls.
+ *
+ * Takes over `tools/list` and `tools/call` on `server`, so tools must be registered here
+ * rather than with `McpServer.registerTool`.
+ */
+export class SessionTools {
+  private readonly tools = new Map<string, SessionTool>();
+
+  constructor(
+    server: McpServer,
+    private readonly access: ToolAccess,
+    private readonly onCall: (report: ToolCallReport) => void,
+  ) {
+    server.server.registerCapabilities({ tools: { listChanged: true } });
+    server.server.setRequestHandler(ListToolsRequestSchema, () => ({ tools: this.list() }));
+    server.server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+      this.call(request.params.name, request.params.arguments ?? {}, extra),
+    );
+  }
+
+  register<Shape extends ToolShape>(
+    name: string,
+    definition: ToolDefinition<Shape>,
+    handler: ToolHandler<z.output<z.ZodObject<Shape>>>,
+  ): void {
+    this.tools.set(name, {
+      description: definition.description,
+      _meta: definition._meta,
+      inputSchema: z.object(definition.inputSchema),
+      handler: handler as ToolHandler<Record<string, unknown>>,
+    });
+  }
+
+  private list(): Tool[] {
+    return [...this.tools]
+      .filter(([name]) => this.access.canEverCall(name))
+      .map(([name, tool]) => ({
+        name,
+        description: tool.description,
+        inputSchema: z.toJSONSchema(tool.inputSchema, { target: 'draft-7', io: 'input' }) as Tool['inputSchema'],
+        _meta: tool._meta,
+      }));
+  }
+
+  private async call(name: string, args: Record<string, unknown>, extra: ToolExtra): Promise<CallToolResult> {
+    const startedAt = Date.now();
+    const tool = this.tools.get(name);
+    const report = (outcome: ToolCallOutcome, error?: unknown) =>
+      this.onCall({
+        tool: name,
+        registered: tool !== undefined,
+        arguments: args,
+        outcome,
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+        extra,
+      });
+
+    if (!tool) {
+      const error = new McpError(ErrorCode.InvalidParams, `Tool ${name} not found`);
+      report('error', error);
+      throw error;
+    }
+
+    try {
+      // The policy sees the raw arguments when they do not parse, so a call that is both
+      // invalid and not allowed is recorded as denied.
+      const parsed = await tool.inputSchema.safeParseAsync(args);
+      this.access.authorize(name, parsed.success ? parsed.data : args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for tool ${name}: ${z.prettifyError(parsed.error)}`);
+      }
+
+      const result = await tool.handler(parsed.data, extra);
+      report(result.isError ? 'error' : 'ok');
+      return result;
+    } catch (error) {
+      report(error instanceof PermissionDeniedError ? 'denied' : 'error', error);
+      return toolError(error);
+    }
+  }
+}
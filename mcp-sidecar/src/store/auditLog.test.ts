@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, describe, it, mock } from 'node:test';
+import { AuditLog, type AuditRecord } from './auditLog.js';
+import { MemoryStorageBackend } from './memoryStorage.js';
+import { SqliteStorageBackend } from './sqliteStorage.js';
+import type { StorageBackend } from './storage.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dir = mkdtempSync(join(tmpdir(), 'audit-log-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let opened = 0;
+const backends: Record<string, () => StorageBackend> = {
+  memory: () => new MemoryStorageBackend(),
+  sqlite: () => new SqliteStorageBackend(join(dir, `storage-${++opened}.sqlite`)),
+};
+
+function entry(overrides: Partial<Omit<AuditRecord, 'id' | 'at'>> = {}): Omit<AuditRecord, 'id' | 'at'> {
+  return {
+    user: { provider: 'github', id: 1, login: 'OctoCat' },
+    sessionId: 'session-1',
+    tool: 'deploy_project',
+    arguments: { project_id: 'proj_1' },
+    outcome: 'ok',
+    durationMs: 5,
+    origin: 'client',
+    ...overrides,
+  };
+}
+
+for (const [driver, open] of Object.entries(backends)) {
+  describe(`AuditLog (${driver})`, () => {
+    afterEach(() => mock.timers.reset());
+
+    it('redacts credentials in arguments and errors', () => {
+      const log = new AuditLog(open());
+      log.append(
+        entry({
+          arguments: { project_id: 'proj_1', token: 'gho_secret' },
+          outcome: 'error',
+          error: 'GitHub rejected access_token=gho_secret',
+        }),
+      );
+
+      const [record] = log.query();
+      assert.equal(record.arguments.token, '[redacted]');
+      assert.equal(record.error, 'GitHub rejected access_token=[redacted]');
+    });
+
+    it('filters by user, tool and time, newest first', () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const log = new AuditLog(open());
+      const first = log.append(entry());
+      mock.timers.tick(1000);
+      const second = log.append(entry({ tool: 'list_projects' }));
+      mock.timers.tick(1000);
+      const third = log.append(entry({ user: { provider: 'oidc', id: 'alice' } }));
+
+      assert.deepEqual(log.query().map((record) => record.id), [third.id, second.id, first.id]);
+      assert.deepEqual(log.query({ user: 'octocat' }).map((record) => record.id), [second.id, first.id]);
+      assert.deepEqual(log.query({ user: 'OIDC:Alice' }).map((record) => record.id), [third.id]);
+      assert.deepEqual(log.query({ tool: 'deploy_project' }).map((record) => record.id), [third.id, first.id]);
+      assert.deepEqual(
+        log
+          .query({ from: new Date('2026-01-01T00:00:01Z'), to: new Date('2026-01-01T00:00:01Z') })
+          .map((record) => record.id),
+        [second.id],
+      );
+    });
+
+    it('pages with the last id of the previous page, also within one timestamp', () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const log = new AuditLog(open());
+      for (let i = 0; i < 5; i++) {
+        log.append(entry());
+        if (i % 2 === 1) {
+          mock.timers.tick(1000);
+        }
+      }
+
+      const all = log.query().map((record) => record.id);
+      const pages: string[][] = [];
+      let afterId: string | undefined;
+      do {
+        const page = log.query({ after: afterId, limit: 2 }).map((record) => record.id);
+        pages.push(page);
+        afterId = page.length === 2 ? page[1] : undefined;
+      } while (afterId);
+
+      assert.deepEqual(pages.flat(), all);
+      assert.deepEqual(pages.map((page) => page.length), [2, 2, 1]);
+      assert.deepEqual(log.query({ after: 'aud_unknown' }), []);
+    });
+
+    it('prunes records past the retention window', () => {
+      mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+      const storage = open();
+      const log = new AuditLog(storage, { retentionMs: 30 * DAY_MS });
+      log.append(entry());
+      mock.timers.tick(20 * DAY_MS);
+      const recent = log.append(entry());
+
+      mock.timers.tick(11 * DAY_MS);
+      assert.equal(log.prune(), 1);
+      assert.deepEqual(log.query().map((record) => record.id), [recent.id]);
+      assert.equal(new AuditLog(storage, { retentionMs: 0 }).prune(), 0);
+    });
+  });
+}
+
+describe('SqliteStorageBackend audit table', () => {
+  it('moves audit records kept in the records table into the audit table', () => {
+    const path = join(dir, 'legacy.sqlite');
+    const legacy = new SqliteStorageBackend(path);
+    const record: AuditRecord = { id: 'aud_legacy', at: '2026-01-01T00:00:00.000Z', ...entry() };
+    legacy.collection<AuditRecord>('audit_log').set(record.id, record);
+    legacy.close();
+
+    const storage = new SqliteStorageBackend(path);
+    const log = new AuditLog(storage);
+
+    assert.deepEqual(log.query({ user: 'github:1', tool: 'deploy_project' }), [record]);
+    assert.deepEqual(storage.collection('audit_log').values(), []);
+    storage.close();
+  });
+});
@@ -0,0 +1,87 @@
+import { randomUUID } from 'node:crypto';
+import { redactSecrets } from '../redact.js';
+import type { AuditTable, StorageBackend } from './storage.js';
+
+// Where a tool call came from. The panel says so in the request's `_meta`; calls from
+// other MCP clients are recorded as `client`.
+export type ToolCallOrigin = 'chat' | 'ui' | 'app' | 'client';
+
+export type ToolCallOutcome = 'ok' | 'error' | 'denied';
+
+export type AuditRecord = {
+  id: string;
+  at: string;
+  user: { provider: string; id: number | string; login?: string };
+  sessionId?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  outcome: ToolCallOutcome;
+  error?: string;
+  durationMs: number;
+  origin: ToolCallOrigin;
+};
+
+export type AuditQuery = {
+  // Matches the user's login or `provider:id`.
+  user?: string;
+  tool?: string;
+  from?: Date;
+  to?: Date;
+  // The id of the last record of the previous page.
+  after?: string;
+  limit?: number;
+};
+
+export type AuditLogOptions = {
+  // Records older than this are deleted by `prune`; 0 keeps them forever.
+  retentionMs: number;
+};
+
+/**
+ * Append-only record of every `tools/call` the sidecar handled. Entries are never
+ * updated; `prune` deletes them once they are older than the retention window.
+ */
+export class AuditLog {
+  private readonly table: AuditTable;
+
+  constructor(
+    storage: StorageBackend,
+    private readonly options: AuditLogOptions = { retentionMs: 0 },
+  ) {
+    this.table = storage.audit;
+  }
+
+  append(entry: Omit<AuditRecord, 'id' | 'at'>): AuditRecord {
+    const record: AuditRecord = {
+      id: `aud_${randomUUID()}`,
+      at: new Date().toISOString(),
+      ...entry,
+      arguments: redactSecrets(entry.arguments) as Record<string, unknown>,
+      error: entry.error === undefined ? undefined : (redactSecrets(entry.error) as string),
+    };
+
+    this.table.insert(record);
+    return record;
+  }
+
+  /** Newest first, `limit` at a time; pass the last id of a page as `after` for the next. */
+  query({ user, tool, from, to, after, limit = 100 }: AuditQuery = {}): AuditRecord[] {
+    return this.table.query({
+      user: user?.toLowerCase(),
+      tool,
+      from: from?.toISOString(),
+      to: to?.toISOString(),
+      after,
+      limit,
+    });
+  }
+
+  /** Deletes the records past the retention window and returns how many there were. */
+  prune(): number {
+    if (this.options.retentionMs === 0) {
+      return 0;
+    }
+
+    return this.table.deleteBefore(new Date(Date.now() - this.options.retentionMs).toISOString());
+  }
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import type { JSONRPCMessage, JSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
+import {
+  checkEventStore,
+  createSessionEventStore,
+  FileSessionEventStore,
+  MemorySessionEventStore,
+} from './eventStore.js';
+
+type Store = MemorySessionEventStore | FileSessionEventStore;
+
+const dir = mkdtempSync(join(tmpdir(), 'event-store-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 't', progress: n } };
+}
+
+async function replay(store: Store, lastEventId: string) {
+  const sent: { eventId: string; progress: unknown }[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => {
+      sent.push({ eventId, progress: (message as JSONRPCNotification).params?.progress });
+    },
+  });
+
+  return { streamId, sent };
+}
+
+let files = 0;
+const drivers: Record<string, (maxEvents: number) => Store> = {
+  memory: (maxEvents) => new MemorySessionEventStore(maxEvents),
+  file: (maxEvents) => new FileSessionEventStore(maxEvents, join(dir, `session-${++files}.jsonl`)),
+};
+
+for (const [driver, create] of Object.entries(drivers)) {
+  describe(`${driver} event store`, () => {
+    it('replays the events of the same stream after the last one the client saw', async () => {
+      const store = create(10);
+      const first = await store.storeEvent('get', notification(1));
+      await store.storeEvent('post-1', notification(2));
+      await store.storeEvent('get', notification(3));
+      await store.storeEvent('get', notification(4));
+
+      assert.equal(await store.getStreamIdForEventId(first), 'get');
+      assert.deepEqual(await replay(store, first), {
+        streamId: 'get',
+        sent: [
+          { eventId: 'evt_3', progress: 3 },
+          { eventId: 'evt_4', progress: 4 },
+        ],
+      });
+    });
+
+    it('keeps only the most recent events', async () => {
+      const store = create(2);
+      for (let n = 1; n <= 5; n++) {
+        await store.storeEvent('get', notification(n));
+      }
+
+      assert.equal(await store.getStreamIdForEventId('evt_3'), undefined);
+      assert.deepEqual(await replay(store, 'evt_3'), { streamId: '', sent: [] });
+      assert.deepEqual((await replay(store, 'evt_4')).sent, [{ eventId: 'evt_5', progress: 5 }]);
+    });
+
+    it('forgets everything once disposed', async () => {
+      const store = create(10);
+      const eventId = await store.storeEvent('get', notification(1));
+      store.dispose();
+
+      assert.equal(await store.getStreamIdForEventId(eventId), undefined);
+    });
+  });
+}
+
+describe('FileSessionEventStore', () => {
+  it('compacts its file back to the newest events and removes it on dispose', async () => {
+    const path = join(dir, 'compacted.jsonl');
+    const store = new FileSessionEventStore(2, path);
+    await Promise.all([1, 2, 3, 4].map((n) => store.storeEvent('get', notification(n))));
+
+    const lines = readFileSync(path, 'utf8').split('\n').filter(Boolean);
+    assert.deepEqual(lines.map((line) => (JSON.parse(line) as { eventId: string }).eventId), ['evt_3', 'evt_4']);
+
+    store.dispose();
+    assert.equal(existsSync(path), false);
+  });
+});
+
+describe('createSessionEventStore', () => {
+  it('picks the configured driver and checks the file driver directory', () => {
+    const config = { eventStoreDir: join(dir, 'events'), eventStoreMaxEvents: 10 };
+    const file = join(dir, 'not-a-directory');
+    writeFileSync(file, '');
+
+    assert.ok(createSessionEventStore({ ...config, eventStoreDriver: 'memory' }) instanceof MemorySessionEventStore);
+    assert.ok(createSessionEventStore({ ...config, eventStoreDriver: 'file' }) instanceof FileSessionEventStore);
+    assert.doesNotThrow(() => checkEventStore({ ...config, eventStoreDriver: 'file' }));
+    assert.throws(() => checkEventStore({ eventStoreDriver: 'file', eventStoreDir: join(file, 'events') }));
+  });
+});
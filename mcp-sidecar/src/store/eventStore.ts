@@ -0,0 +1,153 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { SidecarConfig } from '../config.js';
+
+type StoredEvent = {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+};
+
+type ReplaySender = { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> };
+
+/**
+ * Event store for a single MCP session. The transport writes every outgoing SSE
+ * message here so a client reconnecting with `Last-Event-ID` gets the messages
+ * it missed replayed. Only the most recent events are kept.
+ */
+export interface SessionEventStore extends EventStore {
+  dispose(): void;
+}
+
+async function replayAfter(events: StoredEvent[], lastEventId: EventId, { send }: ReplaySender): Promise<StreamId> {
+  const index = events.findIndex((event) => event.eventId === lastEventId);
+  if (index === -1) {
+    return '';
+  }
+
+  const { streamId } = events[index];
+  for (const event of events.slice(index + 1)) {
+    if (event.streamId === streamId) {
+      await send(event.eventId, event.message);
+    }
+  }
+
+  return streamId;
+}
+
+export class MemorySessionEventStore implements SessionEventStore {
+  private events: StoredEvent[] = [];
+  private sequence = 0;
+
+  constructor(private readonly maxEvents: number) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence += 1;
+    const eventId = `evt_${this.sequence}`;
+
+    this.events.push({ eventId, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(lastEventId: EventId, sender: ReplaySender): Promise<StreamId> {
+    return replayAfter(this.events, lastEventId, sender);
+  }
+
+  dispose(): void {
+    this.events = [];
+  }
+}
+
+/**
+ * Appends events to a JSON-lines file instead of holding them in memory. The
+ * file is compacted back to `maxEvents` lines once it grows to twice that size.
+ */
+export class FileSessionEventStore implements SessionEventStore {
+  private sequence = 0;
+  private lines = 0;
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly maxEvents: number,
+    private readonly filePath: string,
+  ) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence += 1;
+    const event: StoredEvent = { eventId: `evt_${this.sequence}`, streamId, message };
+
+    // Appends and compactions must not interleave, so writes are chained.
+    const write = this.pendingWrite.then(() => this.append(event));
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
+
+    return event.eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return (await this.read()).find((event) => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(lastEventId: EventId, sender: ReplaySender): Promise<StreamId> {
+    return replayAfter(await this.read(), lastEventId, sender);
+  }
+
+  dispose(): void {
+    fs.rmSync(this.filePath, { force: true });
+  }
+
+  private async append(event: StoredEvent): Promise<void> {
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(event)}\n`);
+    this.lines += 1;
+
+    if (this.lines >= this.maxEvents * 2) {
+      const kept = (await this.read()).slice(-this.maxEvents);
+      await fs.promises.writeFile(this.filePath, kept.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+      this.lines = kept.length;
+    }
+  }
+
+  private async read(): Promise<StoredEvent[]> {
+    try {
+      const content = await fs.promises.readFile(this.filePath, 'utf8');
+      return content
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as StoredEvent)
+        .slice(-this.maxEvents);
+    } catch {
+      return [];
+    }
+  }
+}
+
+/** Throws when the file driver's directory cannot be written; the memory driver has nothing to check. */
+export function checkEventStore(config: Pick<SidecarConfig, 'eventStoreDriver' | 'eventStoreDir'>): void {
+  if (config.eventStoreDriver === 'file') {
+    fs.mkdirSync(config.eventStoreDir, { recursive: true });
+    fs.accessSync(config.eventStoreDir, fs.constants.W_OK);
+  }
+}
+
+export function createSessionEventStore(
+  config: Pick<SidecarConfig, 'eventStoreDriver' | 'eventStoreDir' | 'eventStoreMaxEvents'>,
+): SessionEventStore {
+  if (config.eventStoreDriver === 'file') {
+    return new FileSessionEventStore(config.eventStoreMaxEvents, path.join(config.eventStoreDir, `${randomUUID()}.jsonl`));
+  }
+
+  return new MemorySessionEventStore(config.eventStoreMaxEvents);
+}
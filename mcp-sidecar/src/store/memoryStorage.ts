@@ -0,0 +1,92 @@
+import type { AuditRecord } from './auditLog.js';
+import type { AuditFilter, AuditTable, StorageBackend, StorageCollection } from './storage.js';
+
+class MemoryCollection<T> implements StorageCollection<T> {
+  private readonly records = new Map<string, T>();
+
+  get(key: string): T | undefined {
+    return this.records.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.records.set(key, value);
+  }
+
+  delete(key: string): void {
+    this.records.delete(key);
+  }
+
+  values(): T[] {
+    return [...this.records.values()];
+  }
+
+  entries(): [string, T][] {
+    return [...this.records.entries()];
+  }
+
+  count(): number {
+    return this.records.size;
+  }
+}
+
+// Newest first, the order the SQLite table pages in.
+function newestFirst(a: AuditRecord, b: AuditRecord): number {
+  return b.at.localeCompare(a.at) || b.id.localeCompare(a.id);
+}
+
+class MemoryAuditTable implements AuditTable {
+  private records: AuditRecord[] = [];
+
+  insert(record: AuditRecord): void {
+    this.records.push(record);
+  }
+
+  query({ user, tool, from, to, after, limit }: AuditFilter): AuditRecord[] {
+    const cursor = after === undefined ? undefined : this.records.find((record) => record.id === after);
+    if (after !== undefined && !cursor) {
+      return [];
+    }
+
+    return this.records
+      .filter(
+        (record) =>
+          (!user ||
+            record.user.login?.toLowerCase() === user ||
+            `${record.user.provider}:${record.user.id}`.toLowerCase() === user) &&
+          (!tool || record.tool === tool) &&
+          (!from || record.at >= from) &&
+          (!to || record.at <= to) &&
+          (!cursor || newestFirst(cursor, record) < 0),
+      )
+      .sort(newestFirst)
+      .slice(0, limit);
+  }
+
+  deleteBefore(at: string): number {
+    const count = this.records.length;
+    this.records = this.records.filter((record) => record.at >= at);
+    return count - this.records.length;
+  }
+}
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly driver = 'memory' as const;
+  readonly audit: AuditTable = new MemoryAuditTable();
+  private readonly collections = new Map<string, MemoryCollection<unknown>>();
+
+  collection<T>(name: string): StorageCollection<T> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new MemoryCollection<unknown>();
+      this.collections.set(name, collection);
+    }
+
+    return collection as StorageCollection<T>;
+  }
+
+  ping(): void {}
+
+  close(): void {
+    this.collections.clear();
+  }
+}
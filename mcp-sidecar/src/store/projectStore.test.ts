@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { MemoryStorageBackend } from './memoryStorage.js';
+import { orgNamespace, ProjectStore, userNamespace, type ProjectChange } from './projectStore.js';
+import { SqliteStorageBackend } from './sqliteStorage.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'project-store-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const octocat = userNamespace('github', 1);
+
+describe('ProjectStore', () => {
+  it('seeds a personal namespace with the sample projects once', () => {
+    const store = new ProjectStore(new MemoryStorageBackend());
+
+    const first = store.scope([octocat]).list();
+    const again = store.scope([octocat]).list();
+
+    assert.deepEqual(first.map((project) => project.name), ['My API', 'Frontend App', 'Auth Microservice']);
+    assert.ok(first.every((project) => project.owner === octocat));
+    assert.deepEqual(again, first);
+  });
+
+  it('gives every project an unguessable id, also for the seeded copies', () => {
+    const store = new ProjectStore(new MemoryStorageBackend());
+    store.scope([octocat]);
+    store.scope([userNamespace('github', 2)]);
+    const created = store.create({ name: 'Docs', owner: octocat });
+
+    const ids = store.list().map((project) => project.id);
+    assert.equal(new Set(ids).size, 7);
+    assert.ok(ids.every((id) => /^proj_[0-9a-f]{16}$/.test(id)));
+    assert.equal(created.status, 'created');
+    assert.equal(created.url, null);
+  });
+
+  it('keeps projects across restarts with the sqlite backend', () => {
+    const path = join(dir, 'projects.sqlite');
+    const storage = new SqliteStorageBackend(path);
+    const created = new ProjectStore(storage).scope([octocat]).create({ name: 'Docs', template: 'static' });
+    storage.close();
+
+    const reopened = new SqliteStorageBackend(path);
+    const scope = new ProjectStore(reopened).scope([octocat]);
+
+    assert.deepEqual(scope.require(created.id), created);
+    assert.equal(scope.list().length, 4);
+    reopened.close();
+  });
+
+  it('only allows lifecycle transitions the status machine knows', () => {
+    const store = new ProjectStore(new MemoryStorageBackend());
+    const project = store.create({ name: 'Docs', owner: octocat });
+
+    assert.throws(() => store.transition(project.id, 'active'), /cannot move from created to active/);
+    const deploying = store.transition(project.id, 'deploying', 'staging');
+    assert.equal(deploying.environment, 'staging');
+    assert.throws(() => store.transition(project.id, 'deploying'), /cannot move from deploying to deploying/);
+
+    const active = store.transition(project.id, 'active');
+    assert.equal(active.url, `https://${project.id}.staging.example.cloud`);
+  });
+
+  it('updates and deletes projects and refuses unknown ids', () => {
+    const store = new ProjectStore(new MemoryStorageBackend());
+    const project = store.create({ name: 'Docs', owner: octocat });
+
+    assert.equal(store.update(project.id, { repository: 'acme/docs' }).repository, 'acme/docs');
+    assert.equal(store.delete(project.id).id, project.id);
+    assert.equal(store.get(project.id), undefined);
+    assert.throws(() => store.update(project.id, { name: 'Gone' }), /does not exist/);
+  });
+
+  it('tells subscribers about every change until they unsubscribe', () => {
+    const store = new ProjectStore(new MemoryStorageBackend());
+    const changes: ProjectChange[] = [];
+    const unsubscribe = store.subscribe((change) => changes.push(change));
+
+    const project = store.create({ name: 'Docs', owner: octocat });
+    store.update(project.id, { name: 'Handbook' });
+    store.transition(project.id, 'deploying', 'staging');
+    store.delete(project.id);
+    unsubscribe();
+    store.create({ name: 'Unheard', owner: octocat });
+
+    assert.deepEqual(
+      changes.map(({ type, project: changed }) => [type, changed.name, changed.status]),
+      [
+        ['created', 'Docs', 'created'],
+        ['updated', 'Handbook', 'created'],
+        ['updated', 'Handbook', 'deploying'],
+        ['deleted', 'Handbook', 'deploying'],
+      ],
+    );
+  });
+
+  it('lets a scope tell which changed projects its session may hear about', () => {
+    const store = new ProjectStore(new MemoryStorageBackend());
+    const scope = store.scope([octocat, orgNamespace('Acme')]);
+    const changes: ProjectChange[] = [];
+    store.subscribe((change) => changes.push(change));
+
+    store.create({ name: 'Mine', owner: octocat });
+    store.create({ name: 'Shared', owner: orgNamespace('acme') });
+    store.create({ name: 'Theirs', owner: userNamespace('github', 2) });
+
+    assert.deepEqual(
+      changes.filter((change) => scope.includes(change.project)).map((change) => change.project.name),
+      ['Mine', 'Shared'],
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import { randomBytes } from 'node:crypto';
+import type { StorageBackend, StorageCollection } from './storage.js';
+
+export type ProjectStatus = 'created' | 'deploying' | 'active' | 'failed';
+
+export type ProjectEnvironment = 'staging' | 'production' | 'development';
+
+export type ProjectRecord = {
+  id: string;
+  name: string;
+  template: string;
+  status: ProjectStatus;
+  environment: ProjectEnvironment;
+  url: string | null;
+  repository?: string;
+  // Namespace the project belongs to: `user:<provider>:<user id>` or `org:<github org>`.
+  // Projects from before namespaces existed have none and belong to nobody.
+  owner?: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ProjectChange = {
+  type: 'created' | 'updated' | 'deleted';
+  project: ProjectRecord;
+};
+
+const allowedTransitions: Record<ProjectStatus, ProjectStatus[]> = {
+  created: ['deploying'],
+  deploying: ['active', 'failed'],
+  active: ['deploying'],
+  failed: ['deploying'],
+};
+
+type NamespaceRecord = {
+  owner: string;
+  seededAt: string;
+};
+
+// Sample projects every personal namespace starts with; ids are generated per copy.
+const seedProjects: Omit<ProjectRecord, 'id' | 'url'>[] = [
+  {
+    name: 'My API',
+    template: 'api-only',
+    status: 'active',
+    environment: 'production',
+    created_at: '2026-01-15T10:30:00Z',
+    updated_at: '2026-01-15T10:30:00Z',
+  },
+  {
+    name: 'Frontend App',
+    template: 'fullstack',
+    status: 'active',
+    environment: 'staging',
+    created_at: '2026-02-01T14:20:00Z',
+    updated_at: '2026-02-01T14:20:00Z',
+  },
+  {
+    name: 'Auth Microservice',
+    template: 'microservice',
+    status: 'active',
+    environment: 'production',
+    created_at: '2026-02-10T09:15:00Z',
+    updated_at: '2026-02-10T09:15:00Z',
+  },
+];
+
+function projectUrl(id: string, environment: ProjectEnvironment): string {
+  return `https://${id}.${environment}.example.cloud`;
+}
+
+// 64 random bits, so ids neither collide across namespaces nor can be guessed from one another.
+function projectId(): string {
+  return `proj_${randomBytes(8).toString('hex')}`;
+}
+
+export function userNamespace(provider: string, userId: number | string): string {
+  return `user:${provider}:${userId}`;
+}
+
+export function orgNamespace(org: string): string {
+  return `org:${org.toLowerCase()}`;
+}
+
+export class ProjectStore {
+  private readonly projects: StorageCollection<ProjectRecord>;
+  private readonly namespaces: StorageCollection<NamespaceRecord>;
+  private readonly listeners = new Set<(change: ProjectChange) => void>();
+
+  constructor(storage: StorageBackend) {
+    this.projects = storage.collection<ProjectRecord>('projects');
+    this.namespaces = storage.collection<NamespaceRecord>('project_namespaces');
+  }
+
+  /**
+   * A view limited to the projects of `owners`. The first owner is the user's personal
+   * namespace; it is filled with the sample projects the first time it is used.
+   */
+  scope(owners: string[]): ProjectScope {
+    const [personal] = owners;
+    if (personal && !this.namespaces.get(personal)) {
+      for (const seed of seedProjects) {
+        const id = projectId();
+        this.projects.set(id, { ...seed, id, owner: personal, url: projectUrl(id, seed.environment) });
+      }
+      this.namespaces.set(personal, { owner: personal, seededAt: new Date().toISOString() });
+    }
+
+    return new ProjectScope(this, owners);
+  }
+
+  /**
+   * Registers a listener that is called after every create, update, status
+   * transition and delete. Returns an unsubscribe function.
+   */
+  subscribe(listener: (change: ProjectChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  list(): ProjectRecord[] {
+    return this.projects.values().sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  get(id: string): ProjectRecord | undefined {
+    return this.projects.get(id);
+  }
+
+  require(id: string): ProjectRecord {
+    const project = this.projects.get(id);
+    if (!project) {
+      throw new Error(`Project ${id} does not exist.`);
+    }
+
+    return project;
+  }
+
+  create(input: { name: string; template?: string; owner?: string }): ProjectRecord {
+    const now = new Date().toISOString();
+    const project: ProjectRecord = {
+      id: projectId(),
+      owner: input.owner,
+      name: input.name,
+      template: input.template ?? 'default',
+      status: 'created',
+      environment: 'development',
+      url: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.projects.set(project.id, project);
+    this.emit({ type: 'created', project });
+    return project;
+  }
+
+  update(id: string, patch: Partial<Pick<ProjectRecord, 'name' | 'template' | 'repository'>>): ProjectRecord {
+    const updated: ProjectRecord = {
+      ...this.require(id),
+      ...patch,
+      updated_at: new Date().toISOString(),
+    };
+
+    this.projects.set(id, updated);
+    this.emit({ type: 'updated', project: updated });
+    return updated;
+  }
+
+  /**
+   * Moves a project to `status`, rejecting transitions the lifecycle does not allow
+   * (for example deploying a project that is already deploying).
+   */
+  transition(id: string, status: ProjectStatus, environment?: ProjectEnvironment): ProjectRecord {
+    const project = this.require(id);
+    if (!allowedTransitions[project.status].includes(status)) {
+      throw new Error(`Project ${id} cannot move from ${project.status} to ${status}.`);
+    }
+
+    const nextEnvironment = environment ?? project.environment;
+    const updated: ProjectRecord = {
+      ...project,
+      status,
+      environment: nextEnvironment,
+      url: status === 'active' ? projectUrl(id, nextEnvironment) : project.url,
+      updated_at: new Date().toISOString(),
+    };
+
+    this.projects.set(id, updated);
+    this.emit({ type: 'updated', project: updated });
+    return updated;
+  }
+
+  delete(id: string): ProjectRecord {
+    const project = this.require(id);
+    this.projects.delete(id);
+    this.emit({ type: 'deleted', project });
+    return project;
+  }
+
+  private emit(change: ProjectChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+}
+
+/**
+ * One user's view of the project store. Projects outside the user's namespaces
+ * behave as if they did not exist.
+ */
+export class ProjectScope {
+  constructor(
+    private readonly store: ProjectStore,
+    readonly owners: string[],
+  ) {}
+
+  includes(project: ProjectRecord): boolean {
+    return project.owner !== undefined && this.owners.includes(project.owner);
+  }
+
+  list(): ProjectRecord[] {
+    return this.store.list().filter((project) => this.includes(project));
+  }
+
+  require(id: string): ProjectRecord {
+    const project = this.store.get(id);
+    if (!project || !this.includes(project)) {
+      throw new Error(`Project ${id} does not exist.`);
+    }
+
+    return project;
+  }
+
+  /** Creates the project in the personal namespace unless `owner` names another of the user's namespaces. */
+  create(input: { name: string; template?: string; owner?: string }): ProjectRecord {
+    const owner = input.owner ?? this.owners[0];
+    if (!this.owners.includes(owner)) {
+      throw new Error(`You cannot create projects in ${owner}. Use one of: ${this.owners.join(', ')}.`);
+    }
+
+    return this.store.create({ ...input, owner });
+  }
+
+  update(id: string, patch: Parameters<ProjectStore['update']>[1]): ProjectRecord {
+    this.require(id);
+    return this.store.update(id, patch);
+  }
+
+  delete(id: string): ProjectRecord {
+    this.require(id);
+    return this.store.delete(id);
+  }
+}
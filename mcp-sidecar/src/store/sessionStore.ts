@@ -1,3 +1,5 @@
+import type { StorageBackend, StorageCollection } from './storage.js';
+
 export type SessionRecord = {
   sessionId: string;
   createdAt: string;
@@ -5,7 +7,11 @@ export type SessionRecord = {
 };
 
 export class SessionStore {
-  private readonly sessions = new Map<string, SessionRecord>();
+  private readonly sessions: StorageCollection<SessionRecord>;
+
+  constructor(storage: StorageBackend) {
+    this.sessions = storage.collection<SessionRecord>('mcp_sessions');
+  }
 
   upsert(sessionId: string): SessionRecord {
     const now = new Date().toISOString();
@@ -26,8 +32,16 @@ export class SessionStore {
     return created;
   }
 
+  get(sessionId: string): SessionRecord | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  list(): SessionRecord[] {
+    return this.sessions.values();
+  }
+
   has(sessionId: string): boolean {
-    return this.sessions.has(sessionId);
+    return this.sessions.get(sessionId) !== undefined;
   }
 
   delete(sessionId: string): void {
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { SqliteStorageBackend } from './sqliteStorage.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'sqlite-storage-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('SqliteStorageBackend', () => {
+  it('answers the readiness ping until it is closed', () => {
+    const storage = new SqliteStorageBackend(join(dir, 'ping.sqlite'));
+
+    storage.ping();
+    storage.close();
+
+    assert.throws(() => storage.ping(), /database connection is not open/);
+  });
+});
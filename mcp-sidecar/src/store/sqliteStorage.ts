@@ -0,0 +1,187 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { AuditRecord } from './auditLog.js';
+import type { AuditFilter, AuditTable, StorageBackend, StorageCollection } from './storage.js';
+
+class SqliteCollection<T> implements StorageCollection<T> {
+  private readonly selectOne: Database.Statement<[string, string], { value: string }>;
+  private readonly selectAll: Database.Statement<[string], { key: string; value: string }>;
+  private readonly selectCount: Database.Statement<[string], { count: number }>;
+  private readonly upsert: Database.Statement<[string, string, string, string]>;
+  private readonly remove: Database.Statement<[string, string]>;
+
+  constructor(
+    db: Database.Database,
+    private readonly name: string,
+  ) {
+    this.selectOne = db.prepare('SELECT value FROM records WHERE collection = ? AND key = ?');
+    this.selectAll = db.prepare('SELECT key, value FROM records WHERE collection = ? ORDER BY key');
+    this.selectCount = db.prepare('SELECT COUNT(*) AS count FROM records WHERE collection = ?');
+    this.upsert = db.prepare(
+      `INSERT INTO records (collection, key, value, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+    );
+    this.remove = db.prepare('DELETE FROM records WHERE collection = ? AND key = ?');
+  }
+
+  get(key: string): T | undefined {
+    const row = this.selectOne.get(this.name, key);
+    return row ? (JSON.parse(row.value) as T) : undefined;
+  }
+
+  set(key: string, value: T): void {
+    this.upsert.run(this.name, key, JSON.stringify(value), new Date().toISOString());
+  }
+
+  delete(key: string): void {
+    this.remove.run(this.name, key);
+  }
+
+  values(): T[] {
+    return this.selectAll.all(this.name).map((row) => JSON.parse(row.value) as T);
+  }
+
+  entries(): [string, T][] {
+    return this.selectAll.all(this.name).map((row) => [row.key, JSON.parse(row.value) as T]);
+  }
+
+  count(): number {
+    return this.selectCount.get(this.name)!.count;
+  }
+}
+
+class SqliteAuditTable implements AuditTable {
+  private readonly insertRow: Database.Statement<[string, string, string | null, string, string, string]>;
+  private readonly deleteRows: Database.Statement<[string]>;
+
+  constructor(private readonly db: Database.Database) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        at TEXT NOT NULL,
+        user_login TEXT,
+        user_key TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        record TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS audit_log_at ON audit_log (at, id);
+      CREATE INDEX IF NOT EXISTS audit_log_user_login ON audit_log (user_login, at);
+      CREATE INDEX IF NOT EXISTS audit_log_user_key ON audit_log (user_key, at);
+      CREATE INDEX IF NOT EXISTS audit_log_tool ON audit_log (tool, at);
+    `);
+
+    this.insertRow = db.prepare(
+      'INSERT INTO audit_log (id, at, user_login, user_key, tool, record) VALUES (?, ?, ?, ?, ?, ?)',
+    );
+    this.deleteRows = db.prepare('DELETE FROM audit_log WHERE at < ?');
+
+    // Earlier versions kept the audit log in the records table.
+    db.transaction(() => {
+      db.exec(`
+        INSERT OR IGNORE INTO audit_log (id, at, user_login, user_key, tool, record)
+        SELECT key,
+          json_extract(value, '$.at'),
+          lower(json_extract(value, '$.user.login')),
+          lower(json_extract(value, '$.user.provider') || ':' || json_extract(value, '$.user.id')),
+          json_extract(value, '$.tool'),
+          value
+        FROM records WHERE collection = 'audit_log';
+        DELETE FROM records WHERE collection = 'audit_log';
+      `);
+    })();
+  }
+
+  insert(record: AuditRecord): void {
+    this.insertRow.run(
+      record.id,
+      record.at,
+      record.user.login?.toLowerCase() ?? null,
+      `${record.user.provider}:${record.user.id}`.toLowerCase(),
+      record.tool,
+      JSON.stringify(record),
+    );
+  }
+
+  query({ user, tool, from, to, after, limit }: AuditFilter): AuditRecord[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (user) {
+      conditions.push('(user_login = ? OR user_key = ?)');
+      params.push(user, user);
+    }
+    if (tool) {
+      conditions.push('tool = ?');
+      params.push(tool);
+    }
+    if (from) {
+      conditions.push('at >= ?');
+      params.push(from);
+    }
+    if (to) {
+      conditions.push('at <= ?');
+      params.push(to);
+    }
+    if (after) {
+      conditions.push('(at, id) < (SELECT at, id FROM audit_log WHERE id = ?)');
+      params.push(after);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare<(string | number)[], { record: string }>(
+        `SELECT record FROM audit_log ${where} ORDER BY at DESC, id DESC LIMIT ?`,
+      )
+      .all(...params, limit);
+
+    return rows.map((row) => JSON.parse(row.record) as AuditRecord);
+  }
+
+  deleteBefore(at: string): number {
+    return this.deleteRows.run(at).changes;
+  }
+}
+
+export class SqliteStorageBackend implements StorageBackend {
+  readonly driver = 'sqlite' as const;
+  private readonly db: Database.Database;
+  readonly audit: AuditTable;
+  private readonly collections = new Map<string, SqliteCollection<unknown>>();
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
+      )
+    `);
+    this.audit = new SqliteAuditTable(this.db);
+  }
+
+  collection<T>(name: string): StorageCollection<T> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new SqliteCollection<unknown>(this.db, name);
+      this.collections.set(name, collection);
+    }
+
+    return collection as StorageCollection<T>;
+  }
+
+  ping(): void {
+    this.db.prepare('SELECT 1').get();
+  }
+
+  close(): void {
+    this.collections.clear();
+    this.db.close();
+  }
+}
@@ -0,0 +1,57 @@
+import type { SidecarConfig } from '../config.js';
+import type { AuditRecord } from './auditLog.js';
+import { MemoryStorageBackend } from './memoryStorage.js';
+import { SqliteStorageBackend } from './sqliteStorage.js';
+
+export type StorageDriver = SidecarConfig['storageDriver'];
+
+export interface StorageCollection<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  delete(key: string): void;
+  values(): T[];
+  entries(): [string, T][];
+  // Without reading the records, so it stays cheap for metrics and limits.
+  count(): number;
+}
+
+/** Filters for `AuditTable.query`, combined with AND. Timestamps are ISO 8601 strings. */
+export type AuditFilter = {
+  // A lowercased login or `provider:id`.
+  user?: string;
+  tool?: string;
+  from?: string;
+  to?: string;
+  // Only records after this one in newest-first order, for paging.
+  after?: string;
+  limit: number;
+};
+
+/**
+ * The tool call audit log, kept apart from the key-value collections so it can be
+ * filtered, paged and pruned by time, user and tool without loading every record.
+ */
+export interface AuditTable {
+  insert(record: AuditRecord): void;
+  /** Newest first. */
+  query(filter: AuditFilter): AuditRecord[];
+  /** Deletes the records older than `at` and returns how many there were. */
+  deleteBefore(at: string): number;
+}
+
+export interface StorageBackend {
+  readonly driver: StorageDriver;
+  readonly audit: AuditTable;
+  collection<T>(name: string): StorageCollection<T>;
+  // Throws when the backend cannot be read; used by the readiness check.
+  ping(): void;
+  close(): void;
+}
+
+export function createStorageBackend(config: Pick<SidecarConfig, 'storageDriver' | 'storagePath'>): StorageBackend {
+  if (config.storageDriver === 'sqlite') {
+    return new SqliteStorageBackend(config.storagePath);
+  }
+
+  return new MemoryStorageBackend();
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { TokenCipher } from '../auth/tokenCipher.js';
+import { MemoryStorageBackend } from './memoryStorage.js';
+import { SqliteStorageBackend } from './sqliteStorage.js';
+import { TokenStore, type OAuthTokenRecord } from './tokenStore.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'token-store-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const record: OAuthTokenRecord = {
+  tokenId: 'tok_1',
+  accessToken: 'gho_access',
+  refreshToken: 'ghr_refresh',
+  provider: 'github',
+  userLogin: 'octocat',
+  userId: 1,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('TokenStore', () => {
+  it('stores tokens encrypted with the current key', () => {
+    const storage = new MemoryStorageBackend();
+    const cipher = new TokenCipher('current-secret');
+    new TokenStore(storage, cipher).set(record);
+
+    const stored = storage.collection<OAuthTokenRecord & { keyId?: string }>('oauth_tokens').get('tok_1');
+    assert.equal(stored?.keyId, cipher.currentKeyId);
+    assert.ok(!JSON.stringify(stored).includes('gho_access'));
+    assert.ok(!JSON.stringify(stored).includes('ghr_refresh'));
+    assert.deepEqual(new TokenStore(storage, cipher).get('tok_1'), record);
+  });
+
+  it('treats a record whose sealed token was tampered with as missing', () => {
+    const storage = new MemoryStorageBackend();
+    const store = new TokenStore(storage, new TokenCipher('current-secret'));
+    store.set(record);
+
+    const tokens = storage.collection<OAuthTokenRecord>('oauth_tokens');
+    const stored = tokens.get('tok_1')!;
+    const [version, iv, tag, ciphertext] = stored.accessToken.split('.');
+    const forgedTag = `${tag[0] === 'A' ? 'B' : 'A'}${tag.slice(1)}`;
+    tokens.set('tok_1', { ...stored, accessToken: [version, iv, forgedTag, ciphertext].join('.') });
+
+    assert.equal(store.get('tok_1'), undefined);
+  });
+
+  it('re-encrypts records sealed with a previous key on rotation', () => {
+    const storage = new MemoryStorageBackend();
+    new TokenStore(storage, new TokenCipher('old-secret')).set(record);
+    new TokenStore(storage, new TokenCipher('lost-secret')).set({ ...record, tokenId: 'tok_2' });
+
+    const rotatedCipher = new TokenCipher('new-secret', ['old-secret']);
+    const store = new TokenStore(storage, rotatedCipher);
+
+    assert.deepEqual(store.rotateKeys(), { rotated: 1, unreadable: 1 });
+    assert.deepEqual(store.rotateKeys(), { rotated: 0, unreadable: 1 });
+    assert.deepEqual(new TokenStore(storage, new TokenCipher('new-secret')).get('tok_1'), record);
+    assert.equal(store.get('tok_2'), undefined);
+  });
+
+  it('still reads plaintext records written before encryption', () => {
+    const storage = new MemoryStorageBackend();
+    storage.collection<OAuthTokenRecord>('oauth_tokens').set('tok_1', record);
+
+    assert.deepEqual(new TokenStore(storage, new TokenCipher('current-secret')).get('tok_1'), record);
+  });
+
+  it('counts its own records in either backend', () => {
+    for (const storage of [new MemoryStorageBackend(), new SqliteStorageBackend(join(dir, 'tokens.sqlite'))]) {
+      const store = new TokenStore(storage, new TokenCipher('current-secret'));
+      store.set(record);
+      store.set({ ...record, tokenId: 'tok_2' });
+      store.set(record);
+      storage.collection('oauth_sessions').set('sess_1', {});
+
+      assert.equal(store.count(), 2);
+      store.delete('tok_1');
+      assert.equal(store.count(), 1);
+      storage.close();
+    }
+  });
+});
@@ -1,27 +1,112 @@
+import type { TokenCipher } from '../auth/tokenCipher.js';
+import type { StorageBackend, StorageCollection } from './storage.js';
+
 export type OAuthTokenRecord = {
   tokenId: string;
   accessToken: string;
   refreshToken?: string;
   tokenType?: string;
   scope?: string;
+  // Id of the identity provider that signed the user in; absent on records from before providers existed (GitHub).
+  provider?: string;
   userLogin?: string;
-  userId?: number;
+  // GitHub user ids are numbers, OIDC subjects are strings.
+  userId?: number | string;
   expiresAt?: number;
+  refreshTokenExpiresAt?: number;
   createdAt: string;
 };
 
+// What actually lands in storage: the token fields hold ciphertext for `keyId`.
+// Records without a `keyId` were written before encryption and are still plaintext.
+type StoredOAuthTokenRecord = OAuthTokenRecord & {
+  keyId?: string;
+};
+
 export class TokenStore {
-  private readonly tokens = new Map<string, OAuthTokenRecord>();
+  private readonly tokens: StorageCollection<StoredOAuthTokenRecord>;
+
+  constructor(
+    storage: StorageBackend,
+    private readonly cipher: TokenCipher,
+  ) {
+    this.tokens = storage.collection<StoredOAuthTokenRecord>('oauth_tokens');
+  }
 
   set(record: OAuthTokenRecord): void {
-    this.tokens.set(record.tokenId, record);
+    this.tokens.set(record.tokenId, this.seal(record));
   }
 
   get(tokenId: string): OAuthTokenRecord | undefined {
-    return this.tokens.get(tokenId);
+    const stored = this.tokens.get(tokenId);
+    return stored ? this.open(stored) : undefined;
   }
 
   delete(tokenId: string): void {
     this.tokens.delete(tokenId);
   }
+
+  count(): number {
+    return this.tokens.count();
+  }
+
+  /**
+   * Re-encrypts every record that is not sealed with the current key. Records
+   * whose key is no longer configured are left untouched and reported as unreadable.
+   */
+  rotateKeys(): { rotated: number; unreadable: number } {
+    let rotated = 0;
+    let unreadable = 0;
+
+    for (const stored of this.tokens.values()) {
+      if (stored.keyId === this.cipher.currentKeyId) {
+        continue;
+      }
+
+      const record = this.open(stored);
+      if (!record) {
+        unreadable += 1;
+        continue;
+      }
+
+      this.tokens.set(record.tokenId, this.seal(record));
+      rotated += 1;
+    }
+
+    return { rotated, unreadable };
+  }
+
+  private seal(record: OAuthTokenRecord): StoredOAuthTokenRecord {
+    return {
+      ...record,
+      keyId: this.cipher.currentKeyId,
+      accessToken: this.cipher.encrypt(record.accessToken, `${record.tokenId}:access`),
+      refreshToken: record.refreshToken
+        ? this.cipher.encrypt(record.refreshToken, `${record.tokenId}:refresh`)
+        : undefined,
+    };
+  }
+
+  private open(stored: StoredOAuthTokenRecord): OAuthTokenRecord | undefined {
+    const { keyId, ...record } = stored;
+    if (!keyId) {
+      return record;
+    }
+
+    if (!this.cipher.canDecrypt(keyId)) {
+      return undefined;
+    }
+
+    try {
+      return {
+        ...record,
+        accessToken: this.cipher.decrypt(record.accessToken, keyId, `${record.tokenId}:access`),
+        refreshToken: record.refreshToken
+          ? this.cipher.decrypt(record.refreshToken, keyId, `${record.tokenId}:refresh`)
+          : undefined,
+      };
+    } catch {
+      return undefined;
+    }
+  }
 }
@@ -1,7 +1,17 @@
 import { AppRenderer, UIResourceRenderer } from '@mcp-ui/client';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import { CallToolResultSchema, type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+    CallToolResultSchema,
+    ElicitRequestSchema,
+    McpError,
+    ResourceListChangedNotificationSchema,
+    ToolListChangedNotificationSchema,
+    type CallToolResult,
+    type ElicitRequestFormParams,
+    type ElicitResult,
+    type PrimitiveSchemaDefinition,
+} from '@modelcontextprotocol/sdk/types.js';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -62,11 +72,77 @@ type McpUiToolInvocationEvent = {
     details: string;
 };
 
+type ProjectSummary = {
+    id: string;
+    name: string;
+    status: string;
+    environment: string;
+};
+
+type ProjectChangeNotification = {
+    type: 'created' | 'updated' | 'deleted';
+    project: ProjectSummary;
+};
+
+type ToolProgress = {
+    toolName: string;
+    progress: number;
+    total?: number;
+    message?: string;
+};
+
+type ElicitationValue = string | number | boolean | string[];
+
+type PendingElicitation = {
+    id: number;
+    params: ElicitRequestFormParams;
+    resolve: (result: ElicitResult) => void;
+};
+
 type OAuthSessionResponse = {
     authenticated?: boolean;
     user?: { login?: string };
 };
 
+// The sidecar's audit log records where each tool call came from.
+const TOOL_ORIGIN_META_KEY = 'laragentic/origin';
+
+function toolOriginMeta(kind: McpUiToolInvocationEvent['kind']): Record<string, string> {
+    const origin = kind === 'chat' || kind === 'app' ? kind : 'ui';
+    return { [TOOL_ORIGIN_META_KEY]: origin };
+}
+
+// Tools that elicit wait on the user without reporting progress, so the SDK's 60 second default is too short.
+const TOOL_CALL_TIMEOUT_MS = 10 * 60 * 1000;
+
+// JSON-RPC error code the sidecar uses for requests over its rate limits.
+const RATE_LIMITED_ERROR_CODE = -32029;
+
+/** Seconds to wait when `caught` is a sidecar rate limit (a JSON-RPC error or an HTTP 429), otherwise null. */
+function rateLimitRetrySeconds(caught: unknown): number | null {
+    if (caught instanceof McpError && caught.code === RATE_LIMITED_ERROR_CODE) {
+        const data = caught.data as { retryAfterSeconds?: unknown } | undefined;
+        return typeof data?.retryAfterSeconds === 'number' ? data.retryAfterSeconds : null;
+    }
+
+    if (caught instanceof StreamableHTTPError && caught.code === 429) {
+        // The transport puts the response body, a JSON-RPC error, into the message.
+        const match = /"retryAfterSeconds":(\d+)/.exec(caught.message);
+        return match ? Number(match[1]) : null;
+    }
+
+    return null;
+}
+
+function describeCallError(caught: unknown, fallback: string): string {
+    const retrySeconds = rateLimitRetrySeconds(caught);
+    if (retrySeconds !== null) {
+        return `Rate limited, retry in ${retrySeconds}s.`;
+    }
+
+    return caught instanceof Error ? caught.message : fallback;
+}
+
 function isResourceContent(item: unknown): item is McpUiResourcePayload {
     if (!item || typeof item !== 'object') {
         return false;
@@ -140,6 +216,53 @@ function isAppCompatible(resource?: NormalizedUiResource): boolean {
     return resource.uri.startsWith('ui://mcp-demo/apps/');
 }
 
+function isProjectSummary(value: unknown): value is ProjectSummary {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+
+    const project = value as Record<string, unknown>;
+    return typeof project.id === 'string' && typeof project.name === 'string' && typeof project.status === 'string';
+}
+
+function parseProjectChange(params: unknown): ProjectChangeNotification | null {
+    if (!params || typeof params !== 'object') {
+        return null;
+    }
+
+    const { type, project } = params as { type?: unknown; project?: unknown };
+    if ((type !== 'created' && type !== 'updated' && type !== 'deleted') || !isProjectSummary(project)) {
+        return null;
+    }
+
+    return { type, project };
+}
+
+function elicitationOptions(schema: PrimitiveSchemaDefinition): { value: string; label: string }[] | null {
+    const source = schema.type === 'array' ? schema.items : schema;
+    if ('oneOf' in source) {
+        return source.oneOf.map((option) => ({ value: option.const, label: option.title }));
+    }
+    if ('anyOf' in source) {
+        return source.anyOf.map((option) => ({ value: option.const, label: option.title }));
+    }
+    if ('enum' in source) {
+        const names = 'enumNames' in source && Array.isArray(source.enumNames) ? (source.enumNames as string[]) : undefined;
+        return source.enum.map((value, index) => ({ value, label: names?.[index] ?? value }));
+    }
+    return null;
+}
+
+function elicitationDefault(schema: PrimitiveSchemaDefinition): ElicitationValue {
+    if (schema.default !== undefined) {
+        return schema.default;
+    }
+    if (schema.type === 'boolean') {
+        return false;
+    }
+    return schema.type === 'array' ? [] : '';
+}
+
 function parseChatMeta(result: CallToolResult): { conversationId?: string; nextActions: NextAction[] } {
     const meta = (result as { _meta?: unknown })._meta;
     if (!meta || typeof meta !== 'object') {
@@ -198,9 +321,13 @@ export default function McpAppsPanel() {
     const [rawRequest, setRawRequest] = useState<string>('');
     const [rawResponse, setRawResponse] = useState<string>('');
     const [conversationId, setConversationId] = useState<string | null>(null);
+    const [toolProgress, setToolProgress] = useState<ToolProgress | null>(null);
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [elicitations, setElicitations] = useState<PendingElicitation[]>([]);
 
     const eventCounterRef = useRef(0);
     const chatCounterRef = useRef(0);
+    const elicitationCounterRef = useRef(0);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const clientRef = useRef<Client | null>(null);
     const transportRef = useRef<StreamableHTTPClientTransport | null>(null);
@@ -307,6 +434,40 @@ export default function McpAppsPanel() {
         }));
     }, [getSession]);
 
+    const loadTools = useCallback(async (client: Client) => {
+        const tools = await client.listTools();
+        const toolMap = new Map<string, ToolItem>();
+        tools.tools.forEach((tool) => {
+            const appUriCandidate = tool._meta?.['ui/resourceUri'];
+            toolMap.set(tool.name, {
+                name: tool.name,
+                description: tool.description,
+                appResourceUri: typeof appUriCandidate === 'string' ? appUriCandidate : undefined,
+            });
+        });
+        toolMapRef.current = toolMap;
+    }, []);
+
+    const loadProjects = useCallback(async (client: Client) => {
+        const result = await client.callTool(
+            { name: 'list_projects', arguments: {}, _meta: toolOriginMeta('ui') },
+            CallToolResultSchema,
+        );
+        if (!isCallToolResult(result) || result.isError) {
+            return;
+        }
+
+        const payload = JSON.parse(textContentFromResult(result) || '{}') as { projects?: unknown[] };
+        setProjects((payload.projects ?? []).filter(isProjectSummary));
+    }, []);
+
+    const applyProjectChange = useCallback((change: ProjectChangeNotification) => {
+        setProjects((prev) => {
+            const rest = prev.filter((project) => project.id !== change.project.id);
+            return change.type === 'deleted' ? rest : [...rest, change.project];
+        });
+    }, []);
+
     const disconnect = useCallback(async () => {
         try {
             if (transportRef.current) {
@@ -321,12 +482,34 @@ export default function McpAppsPanel() {
             transportRef.current = null;
             clientRef.current = null;
             toolMapRef.current = new Map();
+            setProjects([]);
+            setElicitations([]);
             setConnection((prev) => ({ ...prev, connected: false }));
             appendEvent('auth', 'Disconnected from MCP sidecar');
         }
     }, [appendEvent]);
 
-    const connect = useCallback(async () => {
+    const signOut = useCallback(async () => {
+        await disconnect();
+
+        try {
+            const response = await fetch(new URL('/oauth/logout', normalizedMcpBase.origin).toString(), {
+                method: 'POST',
+                credentials: 'include',
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
+            }
+            appendEvent('auth', 'Signed out');
+        } catch (caught) {
+            const message = caught instanceof Error ? caught.message : 'request failed';
+            appendEvent('error', `Sign out failed: ${message}`);
+        }
+
+        await refreshSession();
+    }, [appendEvent, disconnect, normalizedMcpBase.origin, refreshSession]);
+
+    const connect = useCallback(async (): Promise<Client | null> => {
         setConnection((prev) => ({ ...prev, error: undefined }));
 
         try {
@@ -341,31 +524,86 @@ export default function McpAppsPanel() {
                     error: 'Sign in with GitHub first.',
                 }));
                 appendEvent('auth', 'Connect blocked: not authenticated');
-                return;
+                return null;
             }
 
             const transport = new StreamableHTTPClientTransport(new URL(mcpUrl), {
                 requestInit: { credentials: 'include' },
+                // The sidecar keeps an event store per session, so a dropped SSE stream is resumed
+                // with Last-Event-ID and the missed messages are replayed instead of failing the call.
+                reconnectionOptions: {
+                    initialReconnectionDelay: 500,
+                    maxReconnectionDelay: 5000,
+                    reconnectionDelayGrowFactor: 1.5,
+                    maxRetries: 6,
+                },
             });
-            const client = new Client({
-                name: 'laragentic-mcp-chat-ui',
-                version: '1.0.0',
-            });
+            const client = new Client(
+                {
+                    name: 'laragentic-mcp-chat-ui',
+                    version: '1.0.0',
+                },
+                { capabilities: { elicitation: { form: {} } } },
+            );
+            client.onerror = (caught) => {
+                appendEvent('error', `Transport: ${caught.message}`);
+            };
 
-            await client.connect(transport);
+            // Tools ask for confirmations and missing parameters mid-call; the call stays pending until the form is answered.
+            // Requests queue up and are shown one at a time; one the server cancels is dropped from the queue.
+            client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+                if (request.params.mode === 'url' || extra.signal.aborted) {
+                    return { action: extra.signal.aborted ? 'cancel' : 'decline' };
+                }
 
-            const tools = await client.listTools();
-            const toolMap = new Map<string, ToolItem>();
-            tools.tools.forEach((tool) => {
-                const appUriCandidate = tool._meta?.['ui/resourceUri'];
-                toolMap.set(tool.name, {
-                    name: tool.name,
-                    description: tool.description,
-                    appResourceUri: typeof appUriCandidate === 'string' ? appUriCandidate : undefined,
+                const params = request.params;
+                appendEvent('tool', `Elicitation requested: ${params.message}`);
+                return new Promise<ElicitResult>((resolve) => {
+                    const onAbort = () => {
+                        appendEvent('tool', `Elicitation cancelled: ${params.message}`);
+                        pending.resolve({ action: 'cancel' });
+                    };
+                    elicitationCounterRef.current += 1;
+                    const pending: PendingElicitation = {
+                        id: elicitationCounterRef.current,
+                        params,
+                        resolve: (result) => {
+                            extra.signal.removeEventListener('abort', onAbort);
+                            setElicitations((prev) => prev.filter((item) => item !== pending));
+                            resolve(result);
+                        },
+                    };
+                    extra.signal.addEventListener('abort', onAbort, { once: true });
+                    setElicitations((prev) => [...prev, pending]);
                 });
             });
 
-            toolMapRef.current = toolMap;
+            // Server-initiated notifications arrive on the standalone GET stream the client opens after initialize.
+            client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+                await loadTools(client);
+                appendEvent('tool', 'Tool list changed, refreshed');
+            });
+            client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+                appendEvent('tool', 'Resource list changed');
+            });
+            client.fallbackNotificationHandler = async (notification) => {
+                const change = notification.method === 'notifications/projects/changed' ? parseProjectChange(notification.params) : null;
+                if (change) {
+                    applyProjectChange(change);
+                    appendEvent('tool', `Project ${change.project.id} ${change.type}`);
+                }
+            };
+
+            await client.connect(transport);
+            try {
+                await loadTools(client);
+                await loadProjects(client);
+            } catch (caught) {
+                // Not stored in the refs yet, so nothing else would close this session.
+                await client.close().catch(() => undefined);
+                throw caught;
+            }
+
             transportRef.current = transport;
             clientRef.current = client;
 
@@ -375,12 +613,14 @@ export default function McpAppsPanel() {
                 authMessage: `Connected${session.user?.login ? ` as ${session.user.login}` : ''}`,
             });
             appendEvent('auth', 'Connected to MCP sidecar');
+            return client;
         } catch (caught) {
-            const message = caught instanceof Error ? caught.message : 'MCP connection failed';
+            const message = describeCallError(caught, 'MCP connection failed');
             setConnection((prev) => ({ ...prev, connected: false, error: message }));
             appendEvent('error', `Connect failed: ${message}`);
+            return null;
         }
-    }, [appendEvent, disconnect, getSession, mcpUrl]);
+    }, [appendEvent, applyProjectChange, disconnect, getSession, loadProjects, loadTools, mcpUrl]);
 
     const executeTool = useCallback(async (params: {
         toolName: string;
@@ -404,14 +644,33 @@ export default function McpAppsPanel() {
         setRawRequest(JSON.stringify({ tool: params.toolName, arguments: params.args }, null, 2));
         appendEvent(params.kind, `Calling ${params.toolName}`);
 
+        const request = { name: params.toolName, arguments: params.args, _meta: toolOriginMeta(params.kind) };
+        const requestOptions = {
+            onprogress: (progress: { progress: number; total?: number; message?: string }) => {
+                setToolProgress({ toolName: params.toolName, ...progress });
+            },
+            resetTimeoutOnProgress: true,
+            timeout: TOOL_CALL_TIMEOUT_MS,
+        };
+
         try {
-            const result = await client.callTool(
-                {
-                    name: params.toolName,
-                    arguments: params.args,
-                },
-                CallToolResultSchema,
-            );
+            let result: unknown;
+            try {
+                result = await client.callTool(request, CallToolResultSchema, requestOptions);
+            } catch (caught) {
+                // The sidecar answers 404 once it has reaped an idle session; start a fresh one and retry once.
+                if (!(caught instanceof StreamableHTTPError) || caught.code !== 404) {
+                    throw caught;
+                }
+
+                appendEvent('auth', 'MCP session expired, reconnecting');
+                const reconnected = await connect();
+                if (!reconnected) {
+                    throw caught;
+                }
+
+                result = await reconnected.callTool(request, CallToolResultSchema, requestOptions);
+            }
 
             if (!isCallToolResult(result)) {
                 throw new Error('MCP server returned a non-standard tool result.');
@@ -446,15 +705,16 @@ export default function McpAppsPanel() {
             appendEvent(params.kind, `${params.toolName} complete`);
             return result;
         } catch (caught) {
-            const message = caught instanceof Error ? caught.message : `Failed to call ${params.toolName}`;
+            const message = describeCallError(caught, `Failed to call ${params.toolName}`);
             setConnection((prev) => ({ ...prev, error: message }));
             appendChat({ role: 'system', text: `Error: ${message}` });
             appendEvent('error', `${params.toolName} failed: ${message}`);
             return null;
         } finally {
             setSending(false);
+            setToolProgress(null);
         }
-    }, [appendChat, appendEvent]);
+    }, [appendChat, appendEvent, connect]);
 
     const sendChat = useCallback(async (messageText?: string) => {
         const text = (messageText ?? input).trim();
@@ -535,11 +795,19 @@ export default function McpAppsPanel() {
         };
     }, [disconnect]);
 
+    const elicitation = elicitations[0];
+    const respondToElicitation = useCallback((result: ElicitResult) => {
+        elicitation?.resolve(result);
+        appendEvent('tool', `Elicitation ${result.action}`);
+    }, [appendEvent, elicitation]);
+
+    // Project ids differ per user, so point the samples at one the user actually owns.
+    const sampleProjectId = projects[0]?.id ?? 'proj_a1b2c3d4';
     const quickPrompts = [
         'Show me all my projects',
         'Create a fullstack project called "MCP UI Demo"',
-        'Deploy project proj_a1b2c3d4 to staging',
-        'Run security review for proj_a1b2c3d4',
+        `Deploy project ${sampleProjectId} to staging`,
+        `Run security review for ${sampleProjectId}`,
     ];
 
     const markdownComponents = {
@@ -562,7 +830,7 @@ export default function McpAppsPanel() {
     };
 
     return (
-        <div className="flex flex-col rounded-xl border border-border bg-card shadow-sm" style={{ height: 'calc(100vh - 220px)' }}>
+        <div className="relative flex flex-col rounded-xl border border-border bg-card shadow-sm" style={{ height: 'calc(100vh - 220px)' }}>
             <div className="border-b border-border px-4 py-3">
                 <div className="flex flex-wrap items-center justify-between gap-2">
                     <div className="flex items-center gap-2">
@@ -583,6 +851,17 @@ export default function McpAppsPanel() {
                     </button>
                 </div>
 
+                {projects.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                        {projects.map((project) => (
+                            <span key={project.id} className="rounded border border-border px-2 py-0.5 text-xs text-muted-foreground" title={project.id}>
+                                {project.name} · {project.status}
+                                {project.environment ? ` · ${project.environment}` : ''}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
                 {connection.error && (
                     <p className="mt-3 rounded border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700 dark:border-red-900 dark:bg-red-950/30 dark:text-red-300">
                         {connection.error}
@@ -611,6 +890,13 @@ export default function McpAppsPanel() {
                         >
                             Disconnect
                         </button>
+                        <button
+                            onClick={() => void signOut()}
+                            disabled={!connection.authenticated}
+                            className="rounded-lg border border-input px-4 py-2 text-sm disabled:opacity-50"
+                        >
+                            Sign out
+                        </button>
                     </div>
 
                     <div className="grid gap-3 md:grid-cols-2">
@@ -729,6 +1015,21 @@ export default function McpAppsPanel() {
             </div>
 
             <div className="border-t border-border p-4">
+                {toolProgress && (
+                    <div className="mb-3 rounded border border-border bg-muted/30 px-3 py-2">
+                        <div className="mb-1 flex justify-between text-xs text-muted-foreground">
+                            <span>{toolProgress.toolName}{toolProgress.message ? ` — ${toolProgress.message}` : ''}</span>
+                            {toolProgress.total ? <span>{Math.round((toolProgress.progress / toolProgress.total) * 100)}%</span> : null}
+                        </div>
+                        <div className="h-2 overflow-hidden rounded bg-muted">
+                            <div
+                                className="h-full bg-primary transition-all"
+                                style={{ width: `${toolProgress.total ? Math.min(100, (toolProgress.progress / toolProgress.total) * 100) : 100}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
+
                 <div className="mb-3 flex flex-wrap gap-2">
                     {quickPrompts.map((prompt) => (
                         <button
@@ -766,6 +1067,14 @@ export default function McpAppsPanel() {
                     </button>
                 </div>
             </div>
+
+            {elicitation && (
+                <McpElicitationForm
+                    key={elicitation.id}
+                    params={elicitation.params}
+                    onRespond={respondToElicitation}
+                />
+            )}
         </div>
     );
 }
@@ -830,3 +1139,196 @@ function InlineMcpResource({
         />
     );
 }
+
+function McpElicitationForm({
+    params,
+    onRespond,
+}: {
+    params: ElicitRequestFormParams;
+    onRespond: (result: ElicitResult) => void;
+}) {
+    const properties = params.requestedSchema.properties;
+    const required = params.requestedSchema.required ?? [];
+
+    const [values, setValues] = useState<Record<string, ElicitationValue>>(() =>
+        Object.fromEntries(Object.entries(properties).map(([key, schema]) => [key, elicitationDefault(schema)])),
+    );
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    const setValue = (key: string, value: ElicitationValue) => {
+        setValues((prev) => ({ ...prev, [key]: value }));
+    };
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+
+        const nextErrors: Record<string, string> = {};
+        required.forEach((key) => {
+            const value = values[key];
+            if (value === '' || value === undefined || (Array.isArray(value) && value.length === 0)) {
+                nextErrors[key] = 'This field is required';
+            }
+        });
+        setErrors(nextErrors);
+        if (Object.keys(nextErrors).length > 0) {
+            return;
+        }
+
+        // Optional fields left empty are omitted rather than sent as empty strings.
+        const content = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+        onRespond({ action: 'accept', content });
+    };
+
+    const renderField = (key: string, schema: PrimitiveSchemaDefinition) => {
+        const label = schema.title ?? key;
+        const isRequired = required.includes(key);
+        const value = values[key];
+        const options = elicitationOptions(schema);
+        const heading = (
+            <>
+                <label className="block text-sm font-medium text-foreground">
+                    {label} {isRequired && <span className="text-red-500">*</span>}
+                </label>
+                {schema.description && <p className="text-xs text-muted-foreground">{schema.description}</p>}
+            </>
+        );
+
+        if (schema.type === 'boolean') {
+            return (
+                <div key={key} className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={value === true}
+                        onChange={(event) => setValue(key, event.target.checked)}
+                        className="rounded border-input"
+                    />
+                    <label className="text-sm font-medium text-foreground">{label}</label>
+                    {schema.description && <p className="text-xs text-muted-foreground">- {schema.description}</p>}
+                </div>
+            );
+        }
+
+        if (schema.type === 'array' && options) {
+            const selected = Array.isArray(value) ? value : [];
+            return (
+                <div key={key} className="space-y-1">
+                    {heading}
+                    {options.map((option) => (
+                        <label key={option.value} className="flex items-center gap-2 text-sm text-foreground">
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(option.value)}
+                                onChange={(event) =>
+                                    setValue(
+                                        key,
+                                        event.target.checked
+                                            ? [...selected, option.value]
+                                            : selected.filter((item) => item !== option.value),
+                                    )
+                                }
+                                className="rounded border-input"
+                            />
+                            {option.label}
+                        </label>
+                    ))}
+                    {errors[key] && <p className="text-xs text-red-500">{errors[key]}</p>}
+                </div>
+            );
+        }
+
+        if (options) {
+            return (
+                <div key={key} className="space-y-1">
+                    {heading}
+                    <select
+                        value={typeof value === 'string' ? value : ''}
+                        onChange={(event) => setValue(key, event.target.value)}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground"
+                    >
+                        <option value="">Select...</option>
+                        {options.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                    {errors[key] && <p className="text-xs text-red-500">{errors[key]}</p>}
+                </div>
+            );
+        }
+
+        if (schema.type === 'number' || schema.type === 'integer') {
+            return (
+                <div key={key} className="space-y-1">
+                    {heading}
+                    <input
+                        type="number"
+                        value={typeof value === 'number' ? value : ''}
+                        min={schema.minimum}
+                        max={schema.maximum}
+                        step={schema.type === 'integer' ? 1 : 'any'}
+                        onChange={(event) => setValue(key, event.target.value === '' ? '' : Number(event.target.value))}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground"
+                    />
+                    {errors[key] && <p className="text-xs text-red-500">{errors[key]}</p>}
+                </div>
+            );
+        }
+
+        const format = schema.type === 'string' && 'format' in schema ? schema.format : undefined;
+        return (
+            <div key={key} className="space-y-1">
+                {heading}
+                <input
+                    type={format === 'email' ? 'email' : format === 'uri' ? 'url' : 'text'}
+                    value={typeof value === 'string' ? value : ''}
+                    onChange={(event) => setValue(key, event.target.value)}
+                    placeholder={label}
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground"
+                />
+                {errors[key] && <p className="text-xs text-red-500">{errors[key]}</p>}
+            </div>
+        );
+    };
+
+    return (
+        <div className="absolute inset-0 z-10 flex items-center justify-center rounded-xl bg-black/50 backdrop-blur-sm">
+            <div className="mx-4 w-full max-w-md rounded-xl border border-border bg-card p-6 shadow-xl">
+                <div className="mb-1 flex items-center gap-2">
+                    <span className="rounded bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                        MCP Elicitation
+                    </span>
+                </div>
+                <h2 className="text-lg font-semibold text-foreground">Information Required</h2>
+                <p className="mt-1 text-sm text-muted-foreground">{params.message}</p>
+
+                <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                    {Object.entries(properties).map(([key, schema]) => renderField(key, schema))}
+
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button
+                            type="button"
+                            onClick={() => onRespond({ action: 'decline' })}
+                            className="rounded-lg px-4 py-2 text-sm text-muted-foreground transition-colors hover:bg-accent"
+                        >
+                            Decline
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => onRespond({ action: 'cancel' })}
+                            className="rounded-lg px-4 py-2 text-sm text-muted-foreground transition-colors hover:bg-accent"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+                        >
+                            Submit
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}